@@ -0,0 +1,115 @@
+// Local stand-in for a deploy provider. Every branch + commit gets a simulated
+// deployment that builds, deploys and then succeeds or fails.
+//
+//   npm run mock:deploy
+//   DEPLOY_MOCK_URL=http://localhost:4010 npm run dev
+//
+// Branches matching MOCK_DEPLOY_FAIL (a regex, default "fail") fail their build.
+
+import http from 'node:http';
+import { createHash } from 'node:crypto';
+
+const PORT = Number(process.env.PORT || 4010);
+const FAIL_PATTERN = new RegExp(process.env.MOCK_DEPLOY_FAIL || 'fail');
+const BUILD_MS = 6000;
+const DEPLOY_MS = 4000;
+
+// First time each branch@commit was asked about
+const started = new Map();
+
+const BUILD_LOGS = [
+  '==> Cloning repository',
+  '==> Installing dependencies',
+  'added 412 packages in 9s',
+  '==> Running build',
+  '> next build',
+  'Creating an optimized production build ...',
+];
+
+const FAILURE_LOGS = [
+  'Failed to compile.',
+  '',
+  './src/app/page.tsx:42:7',
+  "Type error: Property 'foo' does not exist on type 'Session'.",
+  '',
+  'Error: Command "npm run build" exited with 1',
+  '    at ChildProcess.<anonymous> (/builder/run.js:88:19)',
+  '    at ChildProcess.emit (node:events:519:28)',
+];
+
+const SUCCESS_LOGS = [
+  '✓ Compiled successfully',
+  '==> Build finished',
+  '==> Starting container',
+  '> next start',
+  '✓ Ready on port 3000',
+];
+
+function getStatus(branch, commit) {
+  const key = `${branch}@${commit || ''}`;
+  if (!started.has(key)) started.set(key, Date.now());
+  const elapsed = Date.now() - started.get(key);
+  const fails = FAIL_PATTERN.test(branch);
+
+  const base = {
+    deploymentId: `mock-${createHash('sha1').update(key).digest('hex').slice(0, 12)}`,
+    branch,
+    commitSha: commit || undefined,
+    updatedAt: new Date().toISOString(),
+  };
+
+  if (elapsed < BUILD_MS) {
+    const shown = Math.max(1, Math.ceil((elapsed / BUILD_MS) * BUILD_LOGS.length));
+    return { ...base, status: 'building', logs: BUILD_LOGS.slice(0, shown) };
+  }
+
+  if (fails) {
+    return {
+      ...base,
+      status: 'failed',
+      error: 'Build failed',
+      logs: [...BUILD_LOGS, ...FAILURE_LOGS],
+    };
+  }
+
+  if (elapsed < BUILD_MS + DEPLOY_MS) {
+    return { ...base, status: 'deploying', logs: [...BUILD_LOGS, ...SUCCESS_LOGS.slice(0, 3)] };
+  }
+
+  return {
+    ...base,
+    status: 'success',
+    url: `http://localhost:${PORT}/preview/${encodeURIComponent(branch)}`,
+    logs: [...BUILD_LOGS, ...SUCCESS_LOGS],
+  };
+}
+
+const server = http.createServer((req, res) => {
+  const url = new URL(req.url, `http://localhost:${PORT}`);
+
+  if (url.pathname === '/deployments') {
+    const branch = url.searchParams.get('branch');
+    if (!branch) {
+      res.writeHead(400, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: 'branch required' }));
+      return;
+    }
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(getStatus(branch, url.searchParams.get('commit'))));
+    return;
+  }
+
+  if (url.pathname.startsWith('/preview/')) {
+    res.writeHead(200, { 'Content-Type': 'text/html' });
+    const branch = decodeURIComponent(url.pathname.slice(9)).replace(/[<>&"]/g, '');
+    res.end(`<h1>Preview of ${branch}</h1>`);
+    return;
+  }
+
+  res.writeHead(404);
+  res.end();
+});
+
+server.listen(PORT, () => {
+  console.log(`Mock deploy server on http://localhost:${PORT}`);
+});
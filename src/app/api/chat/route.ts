@@ -1,16 +1,35 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { ClaudeClient, CODING_SYSTEM_PROMPT, generateCodeContext, parseFileChanges } from '@/lib/claude';
-import { GitHubClient, formatFileTree, formatFilesForContext } from '@/lib/github';
+import { ClaudeClient, CODING_SYSTEM_PROMPT, MODELS, ModelKey, estimateTokens } from '@/lib/claude';
+import { runAgentLoop, DEFAULT_AGENT_LIMITS, ToolExecutionResult } from '@/lib/agent';
+import { buildCommitMessage } from '@/lib/changeset';
+import { estimateRequestCost, checkBudget } from '@/lib/budget';
+import { loadCommands, parseSlashCommand, expandCommand, getPathArgs, ParsedCommand } from '@/lib/commands';
+import { createLedgerRecorder, getCostTracker } from '@/lib/ledger';
+import { compressHistory, formatSummaryForPrompt } from '@/lib/compression';
+import { routeModel, isRoutingEnabled, describeModel, ESCALATE_AFTER_FAILURES } from '@/lib/router';
+import { encodeSSE } from '@/lib/sse';
+import { resolveRepoPaths } from '@/lib/recovery';
+import { formatSearchResults } from '@/lib/code-index';
+import { packContext, DEFAULT_CONTEXT_BUDGET } from '@/lib/context-packer';
+import { Workspace, formatWorkspaceForPrompt } from '@/lib/workspace';
+import { formatDiagnostics } from '@/lib/validation';
+import { usesLocalGit } from '@/lib/repo-backend';
+import { formatCommandResult, canRunCommands } from '@/lib/run-command';
+import { ChatMessage, ChatResponse, ConversationSummary, DirectoryEntry, PendingChangeSet, RepoCommit, StreamEvent, ToolCall } from '@/types';
+
+// Recently edited files loaded as context entry points
+const MAX_RECENT_EDITS = 5;
+
+// Lines read_file returns at once; longer files are paged
+const MAX_READ_LINES = 1000;
+
+// A tool result with the workspace paths the tool changed
+type ToolOutcome = ToolExecutionResult & { changed?: string[] };
 
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const {
-      message,
-      conversationHistory = [],
-      settings,
-      session,
-    } = body;
+    const { session } = body;
 
     // Validate required fields
     if (!session?.anthropicKey) {
@@ -23,104 +42,11 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Repository not selected' }, { status: 400 });
     }
 
-    // Initialize clients
-    const claude = new ClaudeClient(session.anthropicKey);
-    const github = new GitHubClient(
-      session.githubToken,
-      session.repo.owner,
-      session.repo.name
-    );
-
-    // Use default branch for reading (always exists), feature branch for writing
-    const readBranch = session.repo.defaultBranch || 'main';
-    const writeBranch = session.currentBranch || readBranch;
-
-    // Get file tree from main branch (always exists and up-to-date)
-    const fileTree = await github.getFileTree(readBranch);
-    const fileTreeStr = formatFileTree(fileTree);
-
-    // Smart file loading: find relevant files based on the message
-    const relevantPaths = await findRelevantFiles(message, github);
-    
-    // Load files with their imports (hybrid approach) - from main branch
-    const files = await github.getFilesWithImports(relevantPaths, readBranch, 2);
-    
-    // Generate context
-    const codeContext = generateCodeContext(fileTreeStr, files);
-
-    // Build messages
-    const messages = [
-      ...conversationHistory,
-      { role: 'user' as const, content: message },
-    ];
-
-    // Call Claude
-    const response = await claude.chat(
-      messages,
-      CODING_SYSTEM_PROMPT,
-      codeContext
-    );
-
-    // Handle tool calls if any
-    let toolResults: any[] = [];
-    let filesChanged: any[] = [];
-
-    if (response.toolCalls) {
-      for (const call of response.toolCalls) {
-        const result = await executeToolCall(call, github, writeBranch, readBranch);
-        toolResults.push(result);
-        
-        if (call.name === 'str_replace' || call.name === 'create_file') {
-          filesChanged.push({
-            path: call.input.path,
-            action: call.name === 'create_file' ? 'create' : 'edit',
-          });
-        }
-      }
-
-      // If there were tool calls, make a follow-up call to get Claude's summary
-      if (toolResults.length > 0) {
-        const toolResultsMessage = toolResults.map((r, i) => 
-          `Tool ${response.toolCalls![i].name}: ${r.success ? 'Success' : 'Failed - ' + r.error}`
-        ).join('\n');
-
-        const followUp = await claude.chat(
-          [
-            ...messages,
-            { role: 'assistant' as const, content: response.content },
-            { role: 'user' as const, content: `Tool results:\n${toolResultsMessage}\n\nPlease summarize what was done.` },
-          ],
-          CODING_SYSTEM_PROMPT,
-          codeContext
-        );
-
-        return NextResponse.json({
-          content: followUp.content,
-          filesChanged,
-          cost: response.cost + followUp.cost,
-          tokensUsed: {
-            input: (response.usage.input_tokens || 0) + (followUp.usage.input_tokens || 0),
-            output: (response.usage.output_tokens || 0) + (followUp.usage.output_tokens || 0),
-            cacheRead: (response.usage.cache_read_input_tokens || 0) + (followUp.usage.cache_read_input_tokens || 0),
-            cacheWrite: (response.usage.cache_creation_input_tokens || 0) + (followUp.usage.cache_creation_input_tokens || 0),
-          },
-          costTracker: claude.getCostTracker(),
-        });
-      }
+    if (body.stream) {
+      return streamChatTurn(body);
     }
 
-    return NextResponse.json({
-      content: response.content,
-      filesChanged,
-      cost: response.cost,
-      tokensUsed: {
-        input: response.usage.input_tokens || 0,
-        output: response.usage.output_tokens || 0,
-        cacheRead: response.usage.cache_read_input_tokens || 0,
-        cacheWrite: response.usage.cache_creation_input_tokens || 0,
-      },
-      costTracker: claude.getCostTracker(),
-    });
+    return NextResponse.json(await runChatTurn(body));
 
   } catch (error: any) {
     console.error('Chat error:', error);
@@ -131,81 +57,376 @@ export async function POST(request: NextRequest) {
   }
 }
 
-// Find relevant files based on the message
-async function findRelevantFiles(message: string, github: GitHubClient): Promise<string[]> {
-  const keywords = extractKeywords(message);
-  
-  if (keywords.length === 0) {
-    return [];
+// Run a turn and send its progress to the browser as Server-Sent Events
+function streamChatTurn(body: any): Response {
+  const encoder = new TextEncoder();
+  // Set when the browser disconnects; the turn still runs to the end and commits,
+  // its events just go nowhere
+  let closed = false;
+
+  const stream = new ReadableStream({
+    async start(controller) {
+      const emit = (event: StreamEvent) => {
+        if (!closed) controller.enqueue(encoder.encode(encodeSSE(event)));
+      };
+      try {
+        const result = await runChatTurn(body, emit);
+        emit({ type: 'done', result });
+      } catch (error: any) {
+        console.error('Chat error:', error);
+        emit({ type: 'error', error: error.message || 'An error occurred' });
+      } finally {
+        if (!closed) controller.close();
+      }
+    },
+    cancel() {
+      closed = true;
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  });
+}
+
+// Load context, run the agent loop and report what changed
+async function runChatTurn(
+  body: any,
+  emit?: (event: StreamEvent) => void
+): Promise<ChatResponse> {
+  const {
+    message,
+    conversationHistory = [],
+    conversationSummary,
+    // Extra files to load, e.g. those named in a failed deploy's stack trace
+    contextFiles = [],
+    // Files changed in recent turns, ranked higher when packing context
+    recentEdits = [],
+    timeZone,
+    settings,
+    session,
+  } = body;
+
+  // The session's repos: the main one plus any attached to the workspace.
+  // Each is read and written on its working branch, so every read sees earlier turns' edits.
+  const workspace = new Workspace(session);
+  const { github, writeBranch } = workspace.main;
+
+  // Slash commands: expand the prompt template and apply the command's tools, model and context
+  let prompt: string = message;
+  let command: ParsedCommand | undefined;
+  if (settings?.preBuiltCommands && message.trim().startsWith('/')) {
+    const parsed = parseSlashCommand(message, await loadCommands(github, writeBranch));
+    if (parsed && 'error' in parsed) {
+      return {
+        ...emptyResponse(),
+        content: parsed.error,
+        costTracker: await getCostTracker(session.id, timeZone),
+      };
+    }
+    if (parsed) {
+      command = parsed;
+      prompt = expandCommand(parsed);
+    }
+  }
+
+  // Get file trees from the working branches
+  const fileTreeStr = await workspace.formatTree();
+
+  // Smart file loading: find relevant files based on the message
+  // (or the command's own strategy: its path arguments, or no files at all)
+  const contextStrategy = command?.command.context ?? 'search';
+  const searchHits = contextStrategy === 'search' ? await findRelevantFiles(message, workspace) : [];
+  const explicitPaths = contextStrategy === 'args' ? getPathArgs(command!) : [];
+
+  if (contextFiles.length > 0) {
+    // Named by the main repo's deployment
+    const repoPaths = await workspace.listPaths(workspace.main).catch(() => []);
+    explicitPaths.push(...resolveRepoPaths(contextFiles, repoPaths).map(p => workspace.qualify(workspace.main, p)));
+  }
+
+  // Load files with their imports (hybrid approach) - from the working branches
+  const entryPaths = [...new Set([...explicitPaths, ...searchHits, ...recentEdits.slice(0, MAX_RECENT_EDITS)])];
+  const files = await workspace.loadFiles(entryPaths, 2);
+
+  // Generate context: ranked files packed into the token budget
+  const { context: codeContext, manifest } = packContext({
+    fileTree: fileTreeStr,
+    files,
+    budget: settings?.contextBudget ?? DEFAULT_CONTEXT_BUDGET,
+    message: prompt,
+    searchHits,
+    explicit: explicitPaths,
+    recentEdits,
+  });
+
+  // Pick the model for this request from its complexity, context size and tool needs
+  const commandModel = command?.command.model;
+  const route = commandModel
+    ? { model: MODELS[commandModel], reason: `Default for /${command!.command.name}` }
+    : routeModel({ message: prompt, contextTokens: estimateTokens(codeContext), settings });
+  const claude = new ClaudeClient(session.anthropicKey, route.model);
+  let modelReason = route.reason;
+
+  // Every API call of this turn goes to the persistent cost ledger
+  const ledgerContext = {
+    sessionId: session.id,
+    repo: `${session.repo.owner}/${session.repo.name}`,
+    branch: writeBranch,
+  };
+  const chatLedger = createLedgerRecorder({ ...ledgerContext, purpose: 'chat' });
+  const summaryLedger = createLedgerRecorder({ ...ledgerContext, purpose: 'summary' });
+  claude.setUsageListener(chatLedger.listener);
+
+  // Long sessions: older turns are replaced by a cached running summary
+  let history: ChatMessage[] = conversationHistory;
+  let summary: ConversationSummary | undefined;
+  let compressionCost = 0;
+  if (settings?.enableConversationCompression) {
+    const compressed = await compressHistory(
+      session.anthropicKey,
+      history,
+      conversationSummary,
+      summaryLedger.listener
+    );
+    history = compressed.messages;
+    summary = compressed.summary;
+    compressionCost = compressed.cost;
   }
 
-  // Search for files matching keywords
-  const searchResults = await Promise.all(
-    keywords.map(k => github.searchFiles(k).catch(() => []))
-  );
+  // Build messages
+  const messages: ChatMessage[] = [
+    ...history,
+    { role: 'user' as const, content: prompt },
+  ];
+
+  // Commands may limit which tools Claude can use
+  const allowedTools = command?.command.allowedTools;
+  // run_command needs a checkout, which only the local git backend has, and a configured sandbox
+  const tools = claude.getTools(allowedTools).filter(t => t.name !== 'run_command' || (usesLocalGit() && canRunCommands()));
+  // Edited files are checked for syntax and type errors unless turned off
+  const validation = settings?.validation ?? 'warn';
 
-  // Flatten and dedupe
-  const allPaths = [...new Set(searchResults.flat())];
-  
-  // Limit to most relevant (first 5)
-  return allPaths.slice(0, 5);
+  const systemPrompt = CODING_SYSTEM_PROMPT +
+    formatWorkspaceForPrompt(workspace) +
+    (summary ? formatSummaryForPrompt(summary) : '');
+
+  // Token budget: estimate the request up front, downgrade or refuse it if it would overrun
+  const turnLimit = settings?.agentLimits?.maxCost ?? DEFAULT_AGENT_LIMITS.maxCost;
+  let budgetRemaining = Infinity;
+  let budgetModel: ModelKey | undefined;
+  if (settings?.tokenBudget?.enabled) {
+    await summaryLedger.flush();
+    const tracker = await getCostTracker(session.id, timeZone);
+    const spent = { session: tracker.sessionCost, day: tracker.dailyCost };
+    const { inputTokens } = await estimateRequestCost(claude, messages, systemPrompt, codeContext);
+    const check = checkBudget(claude.getModel(), inputTokens, spent, settings.tokenBudget);
+
+    if (!check.allowed) {
+      return {
+        ...emptyResponse(),
+        content: check.message!,
+        stopReason: 'budget',
+        model: describeModel(claude.getModel()),
+        modelReason,
+        summary,
+        cost: compressionCost,
+        costTracker: tracker,
+      };
+    }
+
+    if (check.model !== claude.getModel()) {
+      claude.setModel(check.model);
+      modelReason = `${modelReason}; ${check.message}`;
+    }
+    budgetRemaining = check.remaining;
+    budgetModel = check.maxModel;
+  }
+
+  // Run the agent loop: tool results go back to Claude until it ends its turn
+  const result = await runAgentLoop({
+    claude,
+    messages,
+    systemPrompt,
+    codeContext,
+    tools,
+    executeTool: async call => {
+      if (allowedTools && !allowedTools.includes(call.name)) {
+        return { success: false, error: `Tool ${call.name} is not allowed for /${command!.command.name}` };
+      }
+      const toolResult = await executeToolCall(call, workspace);
+      const changed = toolResult.success ? toolResult.changed || [] : [];
+      // Problems an edit introduced go back to Claude with its result, so it can fix them this turn
+      if (validation !== 'off' && changed.length > 0) {
+        const diagnostics = await workspace.validate(changed).catch(() => []);
+        if (diagnostics.length > 0) {
+          toolResult.result = [toolResult.result, `The edit was applied, but validation found problems:\n${formatDiagnostics(diagnostics)}`]
+            .filter(Boolean)
+            .join('\n\n');
+        }
+      }
+      for (const path of changed) {
+        const change = await workspace.getFileChange(path);
+        if (change && emit) {
+          emit({ type: 'file_change', change });
+        }
+      }
+      return toolResult;
+    },
+    maxSteps: settings?.agentLimits?.maxSteps ?? DEFAULT_AGENT_LIMITS.maxSteps,
+    // The turn also stops once its spend reaches what is left of the budget
+    maxCost: Math.min(turnLimit, budgetRemaining),
+    escalateAfterFailures: isRoutingEnabled(settings) ? ESCALATE_AFTER_FAILURES : 0,
+    // Escalation must not switch to a model the budget check ruled out
+    maxModel: budgetModel,
+    onEvent: emit,
+  });
+
+  const filesChanged = await workspace.getFileChanges();
+
+  // Check the turn's edits once more as a whole before they are committed
+  let content = result.content;
+  let blocked = false;
+  if (validation !== 'off' && filesChanged.length > 0) {
+    const diagnostics = await workspace.validate().catch(() => []);
+    if (diagnostics.length > 0) {
+      blocked = validation === 'block';
+      const status = blocked ? 'Not committed: validation found problems (review the changes below)' : 'Validation found problems';
+      content += `\n\n⚠️ ${status}:\n\`\`\`\n${formatDiagnostics(diagnostics)}\n\`\`\``;
+    }
+  }
+
+  // Write the turn's edits as a single commit per repo, or hold them for review
+  let commits: RepoCommit[] = [];
+  let pendingChanges: PendingChangeSet | undefined;
+  if (filesChanged.length > 0 && (settings?.reviewChanges || blocked)) {
+    pendingChanges = await workspace.toPending(buildCommitMessage(prompt, filesChanged));
+  } else if (filesChanged.length > 0) {
+    const committed = await workspace.commit(prompt);
+    commits = committed.commits;
+    for (const error of committed.errors) {
+      content += `\n\n⚠️ ${error}`;
+    }
+  }
+  const commitSha = commits.find(c => c.repo === workspace.main.repo.alias)?.sha;
+  // Only what was committed is reported as changed
+  const committedRepos = new Set(commits.map(c => c.repo));
+
+  await Promise.all([chatLedger.flush(), summaryLedger.flush()]);
+
+  return {
+    content,
+    filesChanged: filesChanged.filter(f => committedRepos.has(workspace.resolve(f.path).member.repo.alias)),
+    commitSha,
+    commits: commits.length > 0 ? commits : undefined,
+    pendingChanges,
+    steps: result.steps,
+    stopReason: result.stopReason === 'cost_limit' && budgetRemaining < turnLimit ? 'budget' : result.stopReason,
+    model: describeModel(result.model),
+    modelReason: result.escalation ? `${modelReason}; ${result.escalation}` : modelReason,
+    summary,
+    command: command ? `/${command.command.name}` : undefined,
+    context: manifest,
+    cost: result.cost + compressionCost,
+    tokensUsed: result.tokensUsed,
+    costTracker: await getCostTracker(session.id, timeZone),
+  };
+}
+
+// A turn that ended before calling Claude (e.g. a usage error or a refused request)
+function emptyResponse(): Omit<ChatResponse, 'content' | 'costTracker'> {
+  return {
+    filesChanged: [],
+    steps: [],
+    stopReason: 'end_turn',
+    model: '',
+    modelReason: '',
+    cost: 0,
+    tokensUsed: { input: 0, output: 0, cacheRead: 0, cacheWrite: 0 },
+  };
 }
 
-// Extract keywords from message
-function extractKeywords(message: string): string[] {
-  // Common code-related terms to look for
-  const codeTerms = message.match(/\b(component|function|api|route|service|util|hook|type|interface|class|module|page|layout)\b/gi) || [];
-  
-  // File names or paths mentioned
-  const fileRefs = message.match(/[\w-]+\.(ts|tsx|js|jsx|css|json|py)/gi) || [];
-  
-  // CamelCase or PascalCase words (likely component/function names)
-  const camelCase = message.match(/\b[A-Z][a-z]+(?:[A-Z][a-z]+)+\b/g) || [];
-  
-  // Combine and dedupe
-  return [...new Set([...codeTerms, ...fileRefs, ...camelCase])].slice(0, 3);
+// Find relevant files for the message in the local code indexes
+async function findRelevantFiles(message: string, workspace: Workspace): Promise<string[]> {
+  const results = await workspace.search(message, { limit: 5 }).catch(() => []);
+  return results.map(r => r.path);
 }
 
 // Execute a tool call
 async function executeToolCall(
-  call: any,
-  github: GitHubClient,
-  writeBranch: string,
-  readBranch: string
-): Promise<{ success: boolean; result?: any; error?: string }> {
+  call: ToolCall,
+  workspace: Workspace
+): Promise<ToolOutcome> {
   try {
     switch (call.name) {
       case 'read_file': {
-        // Read from main branch (more reliable)
-        const file = await github.getFileContent(call.input.path, readBranch);
-        return { success: true, result: file.content };
+        // Working branch with this turn's staged edits applied
+        const content = await workspace.readFile(call.input.path);
+        return { success: true, result: formatFileLines(content, call.input.path, call.input.start_line, call.input.end_line) };
+      }
+
+      case 'list_directory': {
+        const entries = await workspace.listDirectory(call.input.path || '');
+        return { success: true, result: formatDirectory(entries) };
       }
       
       case 'str_replace': {
-        // Write to feature branch
-        const result = await github.applyStrReplace(
-          call.input.path,
+        // Staged in memory, committed to the feature branch at the end of the turn
+        const { member, path } = workspace.resolve(call.input.path);
+        const changes = await workspace.changesFor(member);
+        const result = await changes.strReplace(
+          path,
           call.input.old_str,
-          call.input.new_str,
-          writeBranch
+          call.input.new_str
         );
-        return result;
+        return { ...result, changed: [call.input.path] };
       }
       
       case 'create_file': {
-        // Write to feature branch
-        await github.updateFile(
-          call.input.path,
-          call.input.content,
-          `Create ${call.input.path}`,
-          writeBranch
-        );
-        return { success: true };
+        // Staged in memory, committed to the feature branch at the end of the turn
+        const { member, path } = workspace.resolve(call.input.path);
+        const changes = await workspace.changesFor(member);
+        await changes.createFile(path, call.input.content);
+        return { success: true, changed: [call.input.path] };
+      }
+
+      case 'insert': {
+        const { member, path } = workspace.resolve(call.input.path);
+        const changes = await workspace.changesFor(member);
+        const result = await changes.insert(path, Number(call.input.line), call.input.text);
+        return { ...result, changed: [call.input.path] };
+      }
+
+      case 'delete_file': {
+        const { member, path } = workspace.resolve(call.input.path);
+        const changes = await workspace.changesFor(member);
+        const result = await changes.deleteFile(path);
+        return { ...result, changed: [call.input.path] };
+      }
+
+      case 'move_file': {
+        const { changed, updated, unresolved } = await workspace.moveFile(call.input.path, call.input.new_path);
+        const lines = [`Moved ${call.input.path} to ${call.input.new_path}.`];
+        if (updated.length > 0) lines.push(`Updated imports in: ${updated.join(', ')}`);
+        if (unresolved.length > 0) lines.push(`Could not update these imports, fix them by hand: ${unresolved.join(', ')}`);
+        return { success: true, result: lines.join('\n'), changed };
       }
       
       case 'search_files': {
-        const paths = await github.searchFiles(call.input.query);
-        return { success: true, result: paths };
+        const results = await workspace.search(call.input.query, {
+          symbolsOnly: call.input.kind === 'symbol',
+        });
+        return { success: true, result: formatSearchResults(results) };
+      }
+
+      case 'run_command': {
+        // Runs in a checkout of the base commit with this turn's staged edits written on top
+        const result = await workspace.runCommand(call.input.command, call.input.repo, call.input.timeout_seconds);
+        return { success: true, result: formatCommandResult(result) };
       }
       
       default:
@@ -215,3 +436,39 @@ async function executeToolCall(
     return { success: false, error: error.message };
   }
 }
+
+// File content for read_file: whole when short, otherwise (or when a range is
+// asked for) a page of numbered lines
+function formatFileLines(content: string, path: string, startLine?: number, endLine?: number): string {
+  const lines = content.split('\n');
+  if (lines[lines.length - 1] === '') lines.pop();
+  if (startLine === undefined && endLine === undefined && lines.length <= MAX_READ_LINES) {
+    return content;
+  }
+
+  const start = Math.max(1, Math.floor(Number(startLine) || 1));
+  if (start > lines.length) {
+    throw new Error(`Line ${start} is past the end of ${path}, which has ${lines.length} lines`);
+  }
+  const requestedEnd = endLine === undefined ? lines.length : Math.floor(Number(endLine));
+  const end = Math.min(requestedEnd, lines.length, start + MAX_READ_LINES - 1);
+  if (end < start) {
+    throw new Error('end_line must not be before start_line');
+  }
+
+  const width = String(end).length;
+  const numbered = lines
+    .slice(start - 1, end)
+    .map((line, i) => `${String(start + i).padStart(width)}: ${line}`)
+    .join('\n');
+  const more = end < lines.length ? `\n\n[Lines ${start}-${end} of ${lines.length}; use start_line to read on]` : '';
+  return numbered + more;
+}
+
+// Directory listing for list_directory: subdirectories first, with a trailing slash
+function formatDirectory(entries: DirectoryEntry[]): string {
+  if (entries.length === 0) return 'Directory is empty.';
+  return entries
+    .map(e => e.type === 'dir' ? `${e.path}/` : `${e.path} (${e.size} bytes)`)
+    .join('\n');
+}
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createRepoClient } from '@/lib/repo-backend';
+import { loadCommands } from '@/lib/commands';
+
+// GET - Slash commands (built-in and repo-defined) and file paths for autocomplete
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const token = request.headers.get('x-github-token');
+    const owner = searchParams.get('owner');
+    const repo = searchParams.get('repo');
+    const branch = searchParams.get('branch') || 'main';
+
+    if (!token || !owner || !repo) {
+      return NextResponse.json(
+        { error: 'Missing required parameters' },
+        { status: 400 }
+      );
+    }
+
+    const github = createRepoClient(token, owner, repo);
+    const [commands, files] = await Promise.all([
+      loadCommands(github, branch),
+      github.listFilePaths(branch).catch(() => []),
+    ]);
+
+    return NextResponse.json({ commands, files });
+  } catch (error: any) {
+    return NextResponse.json(
+      { error: error.message },
+      { status: 500 }
+    );
+  }
+}
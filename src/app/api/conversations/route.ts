@@ -0,0 +1,139 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { listConversations, getConversation, saveConversation, deleteConversation, isConversationId } from '@/lib/conversations';
+import { canAccess } from '@/lib/repo-backend';
+
+function invalidId(): NextResponse {
+  return NextResponse.json(
+    { error: 'Invalid conversation id' },
+    { status: 400 }
+  );
+}
+
+function forbidden(): NextResponse {
+  return NextResponse.json(
+    { error: 'No access to this repository' },
+    { status: 403 }
+  );
+}
+
+// GET - One conversation by id, or the list of conversations for a repo
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const token = request.headers.get('x-github-token');
+    const id = searchParams.get('id');
+    const repo = searchParams.get('repo');
+
+    if (!token) {
+      return NextResponse.json(
+        { error: 'Missing required parameters' },
+        { status: 400 }
+      );
+    }
+
+    if (id) {
+      if (!isConversationId(id)) return invalidId();
+      const conversation = await getConversation(id);
+      // Unreadable and missing look the same, so ids cannot be probed
+      if (!conversation || !await canAccess(token, conversation.repo)) {
+        return NextResponse.json(
+          { error: 'Conversation not found' },
+          { status: 404 }
+        );
+      }
+      return NextResponse.json({ conversation });
+    }
+
+    if (!repo) {
+      return NextResponse.json(
+        { error: 'Missing required parameters' },
+        { status: 400 }
+      );
+    }
+
+    if (!await canAccess(token, repo)) {
+      return forbidden();
+    }
+
+    const conversations = await listConversations(repo);
+    return NextResponse.json({ conversations });
+  } catch (error: any) {
+    return NextResponse.json(
+      { error: error.message },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT - Save a conversation (created on first save)
+export async function PUT(request: NextRequest) {
+  try {
+    const token = request.headers.get('x-github-token');
+    const { conversation } = await request.json();
+
+    if (!token || !conversation?.id || !conversation.repo || !Array.isArray(conversation.messages)) {
+      return NextResponse.json(
+        { error: 'Missing required parameters' },
+        { status: 400 }
+      );
+    }
+
+    if (!isConversationId(conversation.id)) return invalidId();
+
+    // Saving may replace an existing conversation, so the caller needs access to its repo too
+    const existing = await getConversation(conversation.id);
+    if (!await canAccess(token, conversation.repo) || (existing && existing.repo !== conversation.repo)) {
+      return forbidden();
+    }
+
+    const info = await saveConversation({
+      id: conversation.id,
+      repo: conversation.repo,
+      branch: conversation.branch || '',
+      branches: conversation.branches,
+      messages: conversation.messages,
+      summary: conversation.summary,
+      deployTarget: conversation.deployTarget,
+    });
+
+    return NextResponse.json({ conversation: info });
+  } catch (error: any) {
+    return NextResponse.json(
+      { error: error.message },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE - Remove a conversation
+export async function DELETE(request: NextRequest) {
+  try {
+    const token = request.headers.get('x-github-token');
+    const id = request.nextUrl.searchParams.get('id');
+
+    if (!token || !id) {
+      return NextResponse.json(
+        { error: 'Missing required parameters' },
+        { status: 400 }
+      );
+    }
+
+    if (!isConversationId(id)) return invalidId();
+
+    const conversation = await getConversation(id);
+    if (!conversation || !await canAccess(token, conversation.repo)) {
+      return NextResponse.json(
+        { error: 'Conversation not found' },
+        { status: 404 }
+      );
+    }
+
+    await deleteConversation(id);
+    return NextResponse.json({ success: true });
+  } catch (error: any) {
+    return NextResponse.json(
+      { error: error.message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCostTracker, getBranchTotals, listEntries } from '@/lib/ledger';
+import { canAccess } from '@/lib/repo-backend';
+
+// GET - Cost totals from the ledger, plus per-branch spend and recent calls for a repo
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const sessionId = searchParams.get('sessionId') || undefined;
+    const timeZone = searchParams.get('timeZone') || undefined;
+    const repo = searchParams.get('repo');
+
+    if (!repo) {
+      const costTracker = await getCostTracker(sessionId, timeZone);
+      return NextResponse.json({ costTracker });
+    }
+
+    // A repo's spend and calls (with their session ids) need read access to it
+    if (!await canAccess(request.headers.get('x-github-token'), repo)) {
+      return NextResponse.json(
+        { error: 'No access to this repository' },
+        { status: 403 }
+      );
+    }
+
+    const costTracker = await getCostTracker(sessionId, timeZone);
+
+    const [branches, entries] = await Promise.all([
+      getBranchTotals(repo),
+      listEntries({ repo, limit: 50 }),
+    ]);
+
+    return NextResponse.json({ costTracker, branches, entries });
+  } catch (error: any) {
+    return NextResponse.json(
+      { error: error.message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createDeployProvider } from '@/lib/deploy';
+
+// GET - Preview deployment status and logs for a branch
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const branch = searchParams.get('branch');
+    const commitSha = searchParams.get('commit') || undefined;
+
+    if (!branch) {
+      return NextResponse.json(
+        { error: 'Branch required' },
+        { status: 400 }
+      );
+    }
+
+    const provider = createDeployProvider({
+      railwayToken: request.headers.get('x-railway-token') || undefined,
+      railwayProjectId: searchParams.get('projectId') || undefined,
+    });
+
+    // No provider configured: nothing to track
+    if (!provider) {
+      return NextResponse.json({ deploy: null });
+    }
+
+    const deploy = await provider.getStatus({ branch, commitSha });
+    return NextResponse.json({ deploy });
+  } catch (error: any) {
+    return NextResponse.json(
+      { error: error.message },
+      { status: 500 }
+    );
+  }
+}
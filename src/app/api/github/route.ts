@@ -1,5 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { GitHubClient } from '@/lib/github';
+import { createRepoClient } from '@/lib/repo-backend';
+import { COMMIT_SHA } from '@/lib/repo-client';
+import { dropBranchIndex } from '@/lib/code-index';
+
+// Commit SHAs from the client are passed to git, so only full hex SHAs are accepted
+function isCommitSha(value: unknown): value is string {
+  return typeof value === 'string' && COMMIT_SHA.test(value);
+}
 
 // GET - List branches
 export async function GET(request: NextRequest) {
@@ -16,7 +23,7 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    const github = new GitHubClient(token, owner, repo);
+    const github = createRepoClient(token, owner, repo);
     const branches = await github.listBranches();
 
     return NextResponse.json({ branches });
@@ -28,7 +35,7 @@ export async function GET(request: NextRequest) {
   }
 }
 
-// POST - Create branch, create PR, merge, or delete
+// POST - Create branch, create or update PR, merge, commit reviewed changes, restore a checkpoint, or delete
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
@@ -41,7 +48,7 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const github = new GitHubClient(token, owner, repo);
+    const github = createRepoClient(token, owner, repo);
 
     switch (action) {
       case 'create': {
@@ -77,6 +84,19 @@ export async function POST(request: NextRequest) {
         return NextResponse.json({ pr });
       }
 
+      case 'updatePR': {
+        const { prNumber, body: prBody } = params;
+        if (!prNumber || typeof prBody !== 'string') {
+          return NextResponse.json(
+            { error: 'PR number and body required' },
+            { status: 400 }
+          );
+        }
+
+        await github.updatePullRequest(prNumber, prBody);
+        return NextResponse.json({ success: true });
+      }
+
       case 'merge': {
         const { prNumber } = params;
         if (!prNumber) {
@@ -90,6 +110,45 @@ export async function POST(request: NextRequest) {
         return NextResponse.json({ success: true });
       }
 
+      case 'commit': {
+        const { branch, baseSha, message, files } = params;
+        if (!branch || !baseSha || !message || !Array.isArray(files) || files.length === 0) {
+          return NextResponse.json(
+            { error: 'Branch, base SHA, message and files required' },
+            { status: 400 }
+          );
+        }
+        if (!isCommitSha(baseSha)) {
+          return NextResponse.json(
+            { error: 'Base SHA must be a full commit SHA' },
+            { status: 400 }
+          );
+        }
+
+        const sha = await github.commitFiles(branch, files, message, baseSha);
+        return NextResponse.json({ sha });
+      }
+
+      case 'restore': {
+        const { branch, sha, mode, knownShas } = params;
+        if (!branch || !sha || (mode !== 'reset' && mode !== 'revert')) {
+          return NextResponse.json(
+            { error: 'Branch, SHA and mode (reset or revert) required' },
+            { status: 400 }
+          );
+        }
+        const known = Array.isArray(knownShas) ? knownShas : [];
+        if (!isCommitSha(sha) || !known.every(isCommitSha)) {
+          return NextResponse.json(
+            { error: 'SHA and known SHAs must be full commit SHAs' },
+            { status: 400 }
+          );
+        }
+
+        const head = await github.restoreBranch(branch, sha, mode, known);
+        return NextResponse.json({ sha: head });
+      }
+
       case 'delete': {
         const { branchName } = params;
         if (!branchName) {
@@ -100,6 +159,7 @@ export async function POST(request: NextRequest) {
         }
 
         await github.deleteBranch(branchName);
+        dropBranchIndex(github.getRepoName(), branchName);
         return NextResponse.json({ success: true });
       }
 
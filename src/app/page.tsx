@@ -1,21 +1,120 @@
 'use client';
 
-import { useState, useRef, useEffect } from 'react';
-import { Send, GitBranch, Settings, DollarSign, Loader2, Check, X, GitPullRequest, Trash2, GitMerge } from 'lucide-react';
-import { Message, Session, Settings as SettingsType, CostTracker } from '@/types';
+import { useState, useRef, useEffect, useMemo } from 'react';
+import { Send, GitBranch, Settings, DollarSign, Loader2, Check, X, GitPullRequest, Trash2, GitMerge, ChevronRight, ExternalLink, History, Plus, Undo2, Redo2, RotateCcw } from 'lucide-react';
+import { Message, Session, Settings as SettingsType, CostTracker, ChatResponse, StreamEvent, ConversationSummary, SlashCommand, DeployStatus, ContextManifest, Conversation, ConversationInfo, RepoCommit, WorkspaceRepo } from '@/types';
+import { readSSE } from '@/lib/sse';
+import { toFileChange } from '@/lib/diff';
+import { getCommandSuggestions } from '@/lib/commands';
+import { isDeployFinished } from '@/lib/deploy';
+import { extractFailureContext, buildRecoveryPrompt } from '@/lib/recovery';
+import { getWorkspaceRepos, splitRepoPath, REPO_ALIAS } from '@/lib/workspace-paths';
+import { undoMoves, redoMoves, knownShas, BranchMove } from '@/lib/checkpoints';
+import DiffReview from '@/components/DiffReview';
+
+// How often and for how long to poll a branch's preview deployment
+const DEPLOY_POLL_INTERVAL_MS = 5000;
+const DEPLOY_POLL_TIMEOUT_MS = 15 * 60 * 1000;
+
+const DEPLOY_LABELS: Record<DeployStatus['status'], string> = {
+  idle: 'Waiting for deploy',
+  building: 'Building',
+  deploying: 'Deploying',
+  success: 'Deployed',
+  failed: 'Deploy failed',
+};
+
+const PR_BODY = `Created by Claude Coder\n\nChanges made in this PR were generated by AI.`;
 
 // localStorage keys
 const STORAGE_KEYS = {
   session: 'claude-coder-session',
   settings: 'claude-coder-settings',
-  costTracker: 'claude-coder-cost',
+  // Id of the open conversation, resumed after a reload
+  conversation: 'claude-coder-conversation',
 };
 
+// The browser's time zone, so daily totals roll over at the user's midnight
+const timeZone = () => Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+// What a conversation save contains, to skip saves that would change nothing
+function conversationKey(
+  branch: string,
+  branches: Record<string, string>,
+  messages: Message[],
+  summary: ConversationSummary | undefined,
+  deployTarget: Conversation['deployTarget'] | null
+): string {
+  return JSON.stringify({ branch, branches, messages, summary, deployTarget: deployTarget ?? null });
+}
+
+// Files changed in recent turns, newest first
+function recentEdits(messages: Message[]): string[] {
+  const paths = messages
+    .slice()
+    .reverse()
+    .flatMap(m => (m.filesChanged || []).filter(f => f.action !== 'delete').map(f => f.path));
+  return [...new Set(paths)].slice(0, 10);
+}
+
+// Messages sent back to Claude as history: not the empty placeholder of a turn
+// that failed before any text arrived, and not error reports
+function conversationHistory(messages: Message[]): Array<{ role: Message['role']; content: string }> {
+  return messages
+    .filter(m => m.content.trim() !== '' && !m.content.startsWith('❌'))
+    .map(m => ({ role: m.role, content: m.content }));
+}
+
+// "3 full, 1 outline, 2 omitted • 12.4k/40.0k tokens"
+function summarizeContext(context: ContextManifest): string {
+  const counts = (['full', 'excerpt', 'outline', 'omitted'] as const)
+    .map(mode => ({ mode, count: context.files.filter(f => f.mode === mode).length }))
+    .filter(({ count }) => count > 0)
+    .map(({ mode, count }) => `${count} ${mode}`);
+  const k = (n: number) => `${(n / 1000).toFixed(1)}k`;
+  return `${counts.join(', ')} • ${k(context.used)}/${k(context.budget)} tokens`;
+}
+
+// Fold a streamed event into the live assistant message
+function applyStreamEvent(message: Message, event: StreamEvent): Message {
+  const steps = [...(message.steps || [])];
+  const current = steps[steps.length - 1];
+
+  switch (event.type) {
+    case 'step_start':
+      steps.push({ index: event.index, text: '', toolCalls: [], stopReason: '', cost: 0 });
+      return { ...message, steps };
+    case 'text': {
+      // Separate the text of consecutive steps with a blank line
+      const separator = current && !current.text && message.content ? '\n\n' : '';
+      if (current) {
+        steps[steps.length - 1] = { ...current, text: current.text + event.text };
+      }
+      return { ...message, steps, content: message.content + separator + event.text };
+    }
+    case 'tool_end':
+      if (current) {
+        steps[steps.length - 1] = { ...current, toolCalls: [...current.toolCalls, event.call] };
+      }
+      return { ...message, steps };
+    case 'model':
+      return { ...message, model: event.model, modelReason: event.reason };
+    case 'file_change': {
+      // Later edits to the same file replace its earlier diff
+      const others = (message.filesChanged || []).filter(f => f.path !== event.change.path);
+      return { ...message, filesChanged: [...others, event.change] };
+    }
+    default:
+      return message;
+  }
+}
+
 export default function Home() {
   // State
   const [messages, setMessages] = useState<Message[]>([]);
   const [input, setInput] = useState('');
   const [isLoading, setIsLoading] = useState(false);
+  const [liveStatus, setLiveStatus] = useState('');
   const [session, setSession] = useState<Session>({});
   const [showSettings, setShowSettings] = useState(false);
   const [showSetup, setShowSetup] = useState(true);
@@ -33,9 +132,36 @@ export default function Home() {
     enableConversationCompression: false,
     tokenBudget: { enabled: false, perSession: 5, perDay: 20 },
     preBuiltCommands: false,
+    streamResponses: true,
+    reviewChanges: false,
+    agentLimits: { maxSteps: 10, maxCost: 1 },
+    contextBudget: 40000,
+    validation: 'warn',
+    autoRecovery: { enabled: false, maxAttempts: 3, maxCost: 2 },
   });
   const [currentBranch, setCurrentBranch] = useState<string>('');
+  // Working branches of the workspace's other repos, by alias
+  const [repoBranches, setRepoBranches] = useState<Record<string, string>>({});
+  const [newRepo, setNewRepo] = useState({ alias: '', fullName: '', defaultBranch: '' });
+  // Messages removed by undo, most recent last
+  const [redoStack, setRedoStack] = useState<Message[][]>([]);
+  const [conversationSummary, setConversationSummary] = useState<ConversationSummary | undefined>();
+  const [commands, setCommands] = useState<SlashCommand[]>([]);
+  const [repoFiles, setRepoFiles] = useState<string[]>([]);
+  const [suggestionIndex, setSuggestionIndex] = useState(0);
   const [prUrl, setPrUrl] = useState<string>('');
+  const [deployTarget, setDeployTarget] = useState<{ branch: string; commitSha: string } | null>(null);
+  const [deployStatus, setDeployStatus] = useState<DeployStatus | null>(null);
+  const [showDeployLogs, setShowDeployLogs] = useState(false);
+  // Auto-recovery attempts and spend on the current branch
+  const [recovery, setRecovery] = useState<{ branch: string; attempts: number; cost: number } | null>(null);
+  // Commit whose failed deployment was already handled
+  const handledFailureRef = useRef('');
+  const [conversationId, setConversationId] = useState('');
+  const [conversations, setConversations] = useState<ConversationInfo[]>([]);
+  const [showHistory, setShowHistory] = useState(false);
+  // Last conversation state saved to (or loaded from) the server
+  const savedConversationRef = useRef('');
 
   const messagesEndRef = useRef<HTMLDivElement>(null);
 
@@ -43,21 +169,29 @@ export default function Home() {
   useEffect(() => {
     const savedSession = localStorage.getItem(STORAGE_KEYS.session);
     const savedSettings = localStorage.getItem(STORAGE_KEYS.settings);
-    const savedCost = localStorage.getItem(STORAGE_KEYS.costTracker);
 
+    let savedToken: string | undefined;
     if (savedSession) {
       const parsed = JSON.parse(savedSession);
-      setSession(parsed);
+      savedToken = parsed.githubToken;
+      // Sessions saved before the cost ledger existed have no id yet
+      setSession({ ...parsed, id: parsed.id || crypto.randomUUID() });
       // If we have all required fields, skip setup
       if (parsed.anthropicKey && parsed.githubToken && parsed.repo) {
         setShowSetup(false);
       }
     }
     if (savedSettings) {
-      setSettings(JSON.parse(savedSettings));
+      // Merge over defaults so settings added since the last save get a value
+      setSettings(s => ({ ...s, ...JSON.parse(savedSettings) }));
     }
-    if (savedCost) {
-      setCostTracker(JSON.parse(savedCost));
+
+    // Resume the conversation that was open before the reload
+    const savedConversation = localStorage.getItem(STORAGE_KEYS.conversation);
+    if (savedConversation) {
+      openConversation(savedConversation, savedToken).catch(() => startNewConversation());
+    } else {
+      startNewConversation();
     }
     
     setIsHydrated(true);
@@ -77,12 +211,208 @@ export default function Home() {
     }
   }, [settings, isHydrated]);
 
-  // Save cost tracker to localStorage when it changes
+  // Load cost totals from the server-side ledger
   useEffect(() => {
-    if (isHydrated) {
-      localStorage.setItem(STORAGE_KEYS.costTracker, JSON.stringify(costTracker));
+    if (!isHydrated || !session.id) return;
+
+    const params = new URLSearchParams({ sessionId: session.id, timeZone: timeZone() });
+    fetch(`/api/costs?${params}`)
+      .then(res => res.json())
+      .then(data => {
+        if (data.costTracker) setCostTracker(data.costTracker);
+      })
+      .catch(() => {});
+  }, [session.id, isHydrated]);
+
+  // Load the repo's saved conversations for the history sidebar
+  useEffect(() => {
+    if (!isHydrated || !session.githubToken || !session.repo?.name) return;
+
+    const params = new URLSearchParams({ repo: `${session.repo.owner}/${session.repo.name}` });
+    fetch(`/api/conversations?${params}`, { headers: { 'x-github-token': session.githubToken } })
+      .then(res => res.json())
+      .then(data => {
+        if (data.conversations) setConversations(data.conversations);
+      })
+      .catch(() => {});
+  }, [isHydrated, session.githubToken, session.repo?.owner, session.repo?.name]);
+
+  // Save the conversation on the server whenever a turn settles
+  useEffect(() => {
+    if (!isHydrated || isLoading || !conversationId || !session.githubToken || !session.repo?.name || messages.length === 0) return;
+
+    const key = conversationKey(currentBranch, repoBranches, messages, conversationSummary, deployTarget);
+    if (key === savedConversationRef.current) return;
+    savedConversationRef.current = key;
+    localStorage.setItem(STORAGE_KEYS.conversation, conversationId);
+
+    fetch('/api/conversations', {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json', 'x-github-token': session.githubToken },
+      body: JSON.stringify({
+        conversation: {
+          id: conversationId,
+          repo: `${session.repo.owner}/${session.repo.name}`,
+          branch: currentBranch,
+          branches: repoBranches,
+          messages,
+          summary: conversationSummary,
+          deployTarget: deployTarget ?? undefined,
+        },
+      }),
+    })
+      .then(res => res.json())
+      .then(data => {
+        if (data.conversation) {
+          setConversations(prev => [data.conversation, ...prev.filter(c => c.id !== data.conversation.id)]);
+        }
+      })
+      .catch(() => {});
+  }, [isHydrated, isLoading, conversationId, messages, currentBranch, repoBranches, conversationSummary, deployTarget, session.githubToken]);
+
+  // Load slash commands (built-in + repo config) and file paths for autocomplete
+  useEffect(() => {
+    if (!isHydrated || !settings.preBuiltCommands || !session.githubToken || !session.repo?.name) {
+      setCommands([]);
+      return;
+    }
+
+    const params = new URLSearchParams({
+      owner: session.repo.owner,
+      repo: session.repo.name,
+      branch: currentBranch || session.repo.defaultBranch || 'main',
+    });
+    fetch(`/api/commands?${params}`, { headers: { 'x-github-token': session.githubToken } })
+      .then(res => res.json())
+      .then(data => {
+        if (data.error) return;
+        setCommands(data.commands);
+        setRepoFiles(data.files);
+      })
+      .catch(() => {});
+  }, [isHydrated, settings.preBuiltCommands, session.githubToken, session.repo?.owner, session.repo?.name, session.repo?.defaultBranch, currentBranch]);
+
+  // Poll the preview deployment of the latest commit on the working branch
+  useEffect(() => {
+    if (!deployTarget || deployTarget.branch !== currentBranch) {
+      setDeployStatus(null);
+      return;
+    }
+
+    let cancelled = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const startedAt = Date.now();
+
+    const poll = async () => {
+      try {
+        const params = new URLSearchParams({ branch: deployTarget.branch, commit: deployTarget.commitSha });
+        if (session.railwayProjectId) params.set('projectId', session.railwayProjectId);
+        const res = await fetch(`/api/deploy?${params}`, {
+          headers: session.railwayToken ? { 'x-railway-token': session.railwayToken } : {},
+        });
+        const data = await res.json();
+        if (cancelled) return;
+
+        // No deploy provider configured
+        if (data.deploy === null) {
+          setDeployStatus(null);
+          return;
+        }
+        if (data.deploy) {
+          setDeployStatus(data.deploy);
+          if (isDeployFinished(data.deploy.status)) return;
+        }
+      } catch {
+        // Keep polling through transient errors
+      }
+      if (!cancelled && Date.now() - startedAt < DEPLOY_POLL_TIMEOUT_MS) {
+        timer = setTimeout(poll, DEPLOY_POLL_INTERVAL_MS);
+      }
+    };
+
+    setDeployStatus(null);
+    poll();
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [deployTarget, currentBranch, session.railwayToken, session.railwayProjectId]);
+
+  // Auto-recovery: when the latest commit's deployment fails, start a fix turn on the
+  // same branch. Its commit is deployed and checked again, until the attempt or cost cap.
+  useEffect(() => {
+    if (!deployStatus || !deployTarget || isLoading || deployTarget.branch !== currentBranch) return;
+    if (deployStatus.commitSha && deployStatus.commitSha !== deployTarget.commitSha) return;
+
+    const branch = currentBranch;
+    const state = recovery?.branch === branch ? recovery : null;
+
+    if (deployStatus.status === 'success') {
+      if (state && state.attempts > 0) {
+        postNote(`✅ Deployment fixed after ${state.attempts} auto-recovery attempt${state.attempts === 1 ? '' : 's'} ($${state.cost.toFixed(4)}).`);
+        setRecovery(null);
+      }
+      return;
+    }
+
+    if (deployStatus.status !== 'failed' || !settings.autoRecovery.enabled) return;
+    if (handledFailureRef.current === deployTarget.commitSha) return;
+    handledFailureRef.current = deployTarget.commitSha;
+
+    const { maxAttempts, maxCost } = settings.autoRecovery;
+    const attempts = state?.attempts ?? 0;
+    const spent = state?.cost ?? 0;
+    if (attempts >= maxAttempts || spent >= maxCost) {
+      postNote(
+        `🛑 Auto-recovery gave up after ${attempts} attempt${attempts === 1 ? '' : 's'} ` +
+        `($${spent.toFixed(4)} of $${maxCost.toFixed(2)} spent). Check the deploy logs.`
+      );
+      return;
     }
-  }, [costTracker, isHydrated]);
+
+    const attempt = attempts + 1;
+    const context = extractFailureContext(deployStatus);
+    setRecovery({ branch, attempts: attempt, cost: spent });
+
+    sendMessage(buildRecoveryPrompt(deployStatus, context, attempt, maxAttempts), {
+      recoveryAttempt: { attempt, maxAttempts },
+      contextFiles: context.frames.map(f => f.path),
+      maxCost: maxCost - spent,
+    }).then(result => {
+      setRecovery(r => r?.branch === branch ? { ...r, cost: r.cost + (result?.cost ?? 0) } : r);
+      // Nothing new to deploy means the loop cannot continue
+      if (result && !result.commitSha && !result.pendingChanges) {
+        postNote('🛑 Auto-recovery stopped: the attempt did not commit a fix.');
+      }
+    });
+  }, [deployStatus, deployTarget, isLoading, currentBranch]);
+
+  const suggestions = useMemo(
+    () => getCommandSuggestions(input, commands, repoFiles),
+    [input, commands, repoFiles]
+  );
+
+  // Keyboard handling for the input: navigate and accept command suggestions, Enter sends
+  const handleInputKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (suggestions.length > 0) {
+      if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+        e.preventDefault();
+        const step = e.key === 'ArrowDown' ? 1 : -1;
+        setSuggestionIndex(i => (i + step + suggestions.length) % suggestions.length);
+        return;
+      }
+      // Tab always completes; Enter completes a command name but sends once arguments are typed
+      if (e.key === 'Tab' || (e.key === 'Enter' && !input.includes(' '))) {
+        e.preventDefault();
+        setInput(suggestions[Math.min(suggestionIndex, suggestions.length - 1)].value);
+        setSuggestionIndex(0);
+        return;
+      }
+    }
+    if (e.key === 'Enter' && !e.shiftKey) {
+      handleSend();
+    }
+  };
 
   // Auto-scroll to bottom
   useEffect(() => {
@@ -93,6 +423,7 @@ export default function Home() {
   const handleSetup = (e: React.FormEvent) => {
     e.preventDefault();
     if (session.anthropicKey && session.githubToken && session.repo) {
+      setSession(s => ({ ...s, id: s.id || crypto.randomUUID() }));
       setShowSetup(false);
     }
   };
@@ -102,8 +433,83 @@ export default function Home() {
     localStorage.removeItem(STORAGE_KEYS.session);
     setSession({});
     setShowSetup(true);
-    setMessages([]);
-    setCurrentBranch('');
+    setConversations([]);
+    setShowHistory(false);
+    startNewConversation();
+  };
+
+  // Show a conversation's state: messages, summary, working branch and its deployment
+  const showConversation = (
+    id: string,
+    state: Pick<Conversation, 'branch' | 'branches' | 'messages' | 'summary' | 'deployTarget'>
+  ) => {
+    savedConversationRef.current = conversationKey(
+      state.branch, state.branches || {}, state.messages, state.summary, state.deployTarget ?? null
+    );
+    setConversationId(id);
+    setMessages(state.messages);
+    setConversationSummary(state.summary);
+    setCurrentBranch(state.branch);
+    setRepoBranches(state.branches || {});
+    setRedoStack([]);
+    setDeployTarget(state.deployTarget ?? null);
+    setRecovery(null);
+    // A deploy that failed before the conversation was closed is not fixed automatically on resume
+    handledFailureRef.current = state.deployTarget?.commitSha || '';
+    setShowDeployLogs(false);
+    setPrUrl('');
+  };
+
+  // Start an empty conversation; the open one stays saved with its branch
+  const startNewConversation = () => {
+    localStorage.removeItem(STORAGE_KEYS.conversation);
+    showConversation(crypto.randomUUID(), { branch: '', messages: [], summary: undefined });
+  };
+
+  // Load a saved conversation from the server and continue it
+  const openConversation = async (id: string, token: string | undefined = session.githubToken) => {
+    const response = await fetch(`/api/conversations?${new URLSearchParams({ id })}`, {
+      headers: { 'x-github-token': token || '' },
+    });
+    const data = await response.json();
+    if (data.error) throw new Error(data.error);
+
+    const conversation: Conversation = data.conversation;
+    showConversation(conversation.id, {
+      ...conversation,
+      messages: conversation.messages.map(m => ({ ...m, timestamp: new Date(m.timestamp) })),
+    });
+    localStorage.setItem(STORAGE_KEYS.conversation, conversation.id);
+  };
+
+  // Pick a conversation from the history sidebar
+  const handleOpenConversation = async (id: string) => {
+    if (isLoading || id === conversationId) return;
+    try {
+      await openConversation(id);
+      setShowHistory(false);
+    } catch (error: any) {
+      postNote(`❌ Could not open conversation: ${error.message}`);
+    }
+  };
+
+  // Delete a saved conversation (its branch is left as it is)
+  const handleDeleteConversation = async (id: string) => {
+    try {
+      const response = await fetch(`/api/conversations?${new URLSearchParams({ id })}`, {
+        method: 'DELETE',
+        headers: { 'x-github-token': session.githubToken || '' },
+      });
+      const data = await response.json();
+      if (data.error) throw new Error(data.error);
+
+      setConversations(prev => prev.filter(c => c.id !== id));
+      if (id === conversationId) {
+        startNewConversation();
+      }
+    } catch (error: any) {
+      postNote(`❌ Could not delete conversation: ${error.message}`);
+    }
   };
 
   // Generate branch name from task
@@ -116,176 +522,456 @@ export default function Home() {
     return `feature/${words}-${Date.now().toString(36).slice(-4)}`;
   };
 
-  // Create a new branch
-  const createBranch = async (branchName: string) => {
+  // Run a branch/PR action on one of the workspace's repos
+  const githubAction = async (repo: WorkspaceRepo, action: string, params: Record<string, any>) => {
     const response = await fetch('/api/github', {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify({
-        action: 'create',
+        action,
         token: session.githubToken,
-        owner: session.repo?.owner,
-        repo: session.repo?.name,
-        branchName,
-        fromBranch: session.repo?.defaultBranch || 'main',
+        owner: repo.owner,
+        repo: repo.name,
+        ...params,
       }),
     });
     const data = await response.json();
     if (data.error) throw new Error(data.error);
-    return data.branch;
+    return data;
+  };
+
+  // Create a new branch. Returns the branch as created (its name is sanitized).
+  const createBranch = async (branchName: string, repo: WorkspaceRepo) => {
+    const data = await githubAction(repo, 'create', { branchName, fromBranch: repo.defaultBranch });
+    return data.branch as { name: string; sha: string };
   };
 
   // Create PR
-  const createPR = async (title: string, branchName: string) => {
-    const response = await fetch('/api/github', {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        action: 'createPR',
-        token: session.githubToken,
-        owner: session.repo?.owner,
-        repo: session.repo?.name,
-        title,
-        body: `Created by Claude Coder\n\nChanges made in this PR were generated by AI.`,
-        head: branchName,
-        base: session.repo?.defaultBranch || 'main',
-      }),
+  const createPR = async (title: string, branchName: string, repo: WorkspaceRepo) => {
+    const data = await githubAction(repo, 'createPR', {
+      title,
+      body: PR_BODY,
+      head: branchName,
+      base: repo.defaultBranch,
     });
-    const data = await response.json();
-    if (data.error) throw new Error(data.error);
-    return data.pr;
+    return data.pr as { number: number; url: string };
+  };
+
+  // Working branches of the workspace: the main repo's, then those of attached repos
+  const workingBranches = (): Array<{ repo: WorkspaceRepo; branch: string }> => {
+    const [main, ...others] = getWorkspaceRepos(session);
+    return [
+      ...(currentBranch ? [{ repo: main, branch: currentBranch }] : []),
+      ...others.filter(r => repoBranches[r.alias]).map(r => ({ repo: r, branch: repoBranches[r.alias] })),
+    ];
+  };
+
+  // Move branches to checkpoints: working branches are reset, default branches
+  // get a commit restoring the files. Branches merged or discarded since are left alone.
+  const moveBranches = async (moves: BranchMove[], known: Message[]) => {
+    const [mainRepo, ...otherRepos] = getWorkspaceRepos(session);
+    for (const move of moves) {
+      const repo = [mainRepo, ...otherRepos].find(r => r.alias === move.repo);
+      const liveBranch = repo === mainRepo ? currentBranch : repo && repoBranches[repo.alias];
+      if (!repo || move.branch !== (liveBranch || repo.defaultBranch)) continue;
+
+      const data = await githubAction(repo, 'restore', {
+        branch: move.branch,
+        sha: move.sha,
+        mode: move.branch === repo.defaultBranch ? 'revert' : 'reset',
+        knownShas: knownShas(known, repo.alias),
+      });
+      if (repo === mainRepo && move.branch === currentBranch) {
+        setDeployTarget({ branch: move.branch, commitSha: data.sha });
+      }
+    }
+  };
+
+  // Keep the first `keep` messages and move the branches back to match. The removed
+  // messages can be brought back with redo.
+  const restoreTo = async (keep: number) => {
+    if (isLoading || keep < 0 || keep >= messages.length) return;
+
+    const removed = messages.slice(keep);
+    try {
+      setIsLoading(true);
+      await moveBranches(undoMoves(removed), [...messages, ...redoStack.flat()]);
+      setMessages(messages.slice(0, keep));
+      setRedoStack(stack => [...stack, removed]);
+      // A summary of messages that are gone no longer applies
+      setConversationSummary(summary => summary && summary.coveredMessages <= keep ? summary : undefined);
+    } catch (error: any) {
+      postNote(`❌ Restore failed: ${error.message}`);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Undo the last turn: the last user message and everything after it
+  const handleUndo = () => restoreTo(messages.map(m => m.role).lastIndexOf('user'));
+
+  // Bring back the messages removed by the last undo, and their commits
+  const handleRedo = async () => {
+    const restored = redoStack[redoStack.length - 1];
+    if (!restored || isLoading) return;
+
+    try {
+      setIsLoading(true);
+      await moveBranches(redoMoves(restored), [...messages, ...redoStack.flat()]);
+      setMessages(prev => [...prev, ...restored]);
+      setRedoStack(stack => stack.slice(0, -1));
+    } catch (error: any) {
+      postNote(`❌ Redo failed: ${error.message}`);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Attach another repository to the workspace
+  const handleAddRepo = () => {
+    const [owner, name] = newRepo.fullName.split('/').map(part => part.trim());
+    const alias = newRepo.alias.trim() || name;
+    if (!owner || !name || !REPO_ALIAS.test(alias) || getWorkspaceRepos(session).some(r => r.alias === alias)) {
+      return;
+    }
+
+    setSession(s => ({
+      ...s,
+      repos: [...(s.repos || []), { alias, owner, name, defaultBranch: newRepo.defaultBranch.trim() || 'main' }],
+    }));
+    setNewRepo({ alias: '', fullName: '', defaultBranch: '' });
+  };
+
+  // Detach a repository; its working branch is left as it is
+  const handleRemoveRepo = (alias: string) => {
+    setSession(s => ({ ...s, repos: (s.repos || []).filter(r => r.alias !== alias) }));
   };
 
   // Send message
-  const handleSend = async () => {
+  const handleSend = () => {
     if (!input.trim() || isLoading) return;
 
+    const text = input;
+    setInput('');
+    sendMessage(text);
+  };
+
+  // Add a status line to the chat
+  const postNote = (content: string) => {
+    setMessages(prev => [...prev, {
+      id: `note-${Date.now()}`,
+      role: 'assistant',
+      content,
+      timestamp: new Date(),
+    }]);
+  };
+
+  // Run a turn for a message. Returns the turn's result, or undefined if it failed.
+  const sendMessage = async (
+    text: string,
+    options: {
+      recoveryAttempt?: Message['recoveryAttempt'];
+      contextFiles?: string[];
+      // Cap on this turn's cost, below the per-turn setting
+      maxCost?: number;
+    } = {}
+  ): Promise<ChatResponse | undefined> => {
     const userMessage: Message = {
       id: Date.now().toString(),
       role: 'user',
-      content: input,
+      content: text,
       timestamp: new Date(),
+      recoveryAttempt: options.recoveryAttempt,
     };
 
     setMessages(prev => [...prev, userMessage]);
-    setInput('');
+    setRedoStack([]);
     setIsLoading(true);
+    const assistantId = `assistant-${Date.now()}`;
 
     try {
       // In safe mode, create a branch first if not already on one
       let workingBranch = currentBranch;
+      let branches = repoBranches;
+      const [mainRepo, ...otherRepos] = getWorkspaceRepos(session);
       if (settings.deployMode === 'safe' && !currentBranch) {
-        const branchName = generateBranchName(input);
-        await createBranch(branchName);
-        workingBranch = branchName;
-        setCurrentBranch(branchName);
+        const branch = await createBranch(generateBranchName(text), mainRepo);
+        workingBranch = branch.name;
+        setCurrentBranch(branch.name);
         
         // Add system message about branch
         setMessages(prev => [...prev, {
           id: `branch-${Date.now()}`,
           role: 'assistant',
-          content: `📦 Created branch \`${branchName}\` for safe editing. Your main branch is protected.`,
+          content: `📦 Created branch \`${branch.name}\` for safe editing. Your main branch is protected.`,
           timestamp: new Date(),
         }]);
       }
 
+      // Attached repos get a working branch of the same name the first time they take part
+      const unbranched = settings.deployMode === 'safe' ? otherRepos.filter(r => !branches[r.alias]) : [];
+      if (unbranched.length > 0) {
+        const created = await Promise.all(unbranched.map(r => createBranch(workingBranch, r)));
+        branches = { ...branches, ...Object.fromEntries(unbranched.map((r, i) => [r.alias, created[i].name])) };
+        setRepoBranches(branches);
+        postNote(`📦 Created branch \`${workingBranch}\` in ${unbranched.map(r => r.alias).join(', ')}.`);
+      }
+
       // Send to API
       const response = await fetch('/api/chat', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
-          message: input,
-          conversationHistory: messages.map(m => ({
-            role: m.role,
-            content: m.content,
-          })),
-          settings,
+          message: text,
+          conversationHistory: conversationHistory(messages),
+          conversationSummary,
+          contextFiles: options.contextFiles,
+          recentEdits: recentEdits(messages),
+          timeZone: timeZone(),
+          settings: options.maxCost === undefined ? settings : {
+            ...settings,
+            agentLimits: {
+              ...settings.agentLimits,
+              maxCost: Math.min(settings.agentLimits.maxCost, options.maxCost),
+            },
+          },
           session: {
             ...session,
             currentBranch: workingBranch || session.repo?.defaultBranch,
+            repos: otherRepos.map(r => ({ ...r, currentBranch: branches[r.alias] || r.defaultBranch })),
           },
+          stream: settings.streamResponses,
         }),
       });
 
-      const data = await response.json();
+      let data: ChatResponse;
 
-      if (data.error) {
-        throw new Error(data.error);
+      if (response.headers.get('content-type')?.includes('text/event-stream')) {
+        // Render the reply live while the turn is running
+        setMessages(prev => [...prev, {
+          id: assistantId,
+          role: 'assistant',
+          content: '',
+          timestamp: new Date(),
+        }]);
+
+        let result: ChatResponse | undefined;
+        await readSSE(response, event => {
+          if (event.type === 'done') {
+            result = event.result;
+          } else if (event.type === 'error') {
+            throw new Error(event.error);
+          } else {
+            if (event.type === 'tool_start') {
+              setLiveStatus(`Running ${event.call.name}${event.call.input?.path ? ` on ${event.call.input.path}` : ''}...`);
+            } else if (event.type === 'tool_end' || event.type === 'step_start') {
+              setLiveStatus('');
+            }
+            setMessages(prev => prev.map(m => m.id === assistantId ? applyStreamEvent(m, event) : m));
+          }
+        });
+
+        if (!result) {
+          throw new Error('The response stream ended before the turn finished');
+        }
+        data = result;
+      } else {
+        const json = await response.json();
+        if (json.error) {
+          throw new Error(json.error);
+        }
+        data = json;
       }
 
       const assistantMessage: Message = {
-        id: Date.now().toString(),
+        id: assistantId,
         role: 'assistant',
         content: data.content,
         timestamp: new Date(),
         cost: data.cost,
         tokensUsed: data.tokensUsed,
         filesChanged: data.filesChanged,
+        commitSha: data.commitSha,
+        commits: data.commits,
+        pendingChanges: data.pendingChanges,
+        model: data.model,
+        modelReason: data.modelReason,
+        steps: data.steps,
+        stopReason: data.stopReason,
+        context: data.context,
       };
 
-      setMessages(prev => [...prev, assistantMessage]);
+      setMessages(prev => [...prev.filter(m => m.id !== assistantId), assistantMessage]);
       
       if (data.costTracker) {
         setCostTracker(data.costTracker);
       }
 
+      if (data.commitSha && workingBranch && settings.deployMode === 'safe') {
+        setDeployTarget({ branch: workingBranch, commitSha: data.commitSha });
+      }
+
+      if (settings.enableConversationCompression) {
+        setConversationSummary(data.summary);
+      }
+
+      return data;
     } catch (error: any) {
-      setMessages(prev => [...prev, {
+      // A live reply that never got any text is replaced by the error
+      setMessages(prev => [...prev.filter(m => m.id !== assistantId || m.content.trim() !== ''), {
         id: Date.now().toString(),
         role: 'assistant',
         content: `❌ Error: ${error.message}`,
         timestamp: new Date(),
       }]);
+      return undefined;
     } finally {
       setIsLoading(false);
+      setLiveStatus('');
     }
   };
 
-  // Merge to main
+  // Commit the hunks the user accepted from a reviewed change set
+  const handleCommitReview = async (
+    messageId: string,
+    files: Array<{ path: string; content: string | null; from?: string }>
+  ) => {
+    const message = messages.find(m => m.id === messageId);
+    if (!message?.pendingChanges) return;
+
+    const { branch, baseSha, message: commitMessage, repos } = message.pendingChanges;
+    const workspaceRepos = getWorkspaceRepos(session);
+    const commits: RepoCommit[] = [];
+
+    try {
+      setIsLoading(true);
+
+      // One commit per repo; in multi-repo workspaces file paths carry the repo alias
+      const targets = repos
+        ? Object.entries(repos).map(([alias, target]) => {
+          const repo = workspaceRepos.find(r => r.alias === alias);
+          if (!repo) throw new Error(`Repository ${alias} is no longer in the workspace`);
+          return {
+            repo,
+            ...target,
+            files: files
+              .map(f => ({ ...f, ...splitRepoPath(f.path, workspaceRepos) }))
+              .filter(f => f.repo === repo)
+              .map(f => ({ path: f.path, content: f.content, from: f.from })),
+          };
+        })
+        : [{ repo: workspaceRepos[0], branch, baseSha, files }];
+
+      for (const target of targets.filter(t => t.files.length > 0)) {
+        const data = await githubAction(target.repo, 'commit', {
+          branch: target.branch,
+          baseSha: target.baseSha,
+          message: commitMessage,
+          files: target.files,
+        });
+        commits.push({ repo: target.repo.alias, branch: target.branch, sha: data.sha, parentSha: target.baseSha });
+      }
+    } catch (error: any) {
+      setMessages(prev => [...prev, {
+        id: `error-${Date.now()}`,
+        role: 'assistant',
+        content: `❌ Commit failed: ${error.message}`,
+        timestamp: new Date(),
+      }]);
+    } finally {
+      setIsLoading(false);
+    }
+
+    // Record what was committed, even when a later repo failed
+    if (commits.length === 0) return;
+    const isCommitted = (path: string) => commits.some(c => c.repo === splitRepoPath(path, workspaceRepos).repo.alias);
+    const filesChanged = files
+      .filter(f => isCommitted(f.path))
+      .map(f => {
+        const pending = message.pendingChanges!.files.find(p => p.path === f.path);
+        return toFileChange(f.path, pending?.original ?? null, f.content);
+      });
+    const mainCommit = commits.find(c => c.repo === workspaceRepos[0].alias);
+    // Repos whose commit failed stay under review
+    const remaining = repos && Object.keys(repos).filter(alias =>
+      !commits.some(c => c.repo === alias) &&
+      files.some(f => splitRepoPath(f.path, workspaceRepos).repo.alias === alias)
+    );
+
+    setMessages(prev => prev.map(m => m.id === messageId ? {
+      ...m,
+      commitSha: mainCommit?.sha,
+      commits,
+      filesChanged,
+      pendingChanges: remaining && remaining.length > 0 ? {
+        ...m.pendingChanges!,
+        files: m.pendingChanges!.files.filter(f => !isCommitted(f.path)),
+        repos: Object.fromEntries(remaining.map(alias => [alias, repos![alias]])),
+      } : { ...m.pendingChanges!, status: 'committed' },
+    } : m));
+
+    if (mainCommit && mainCommit.branch === currentBranch) {
+      setDeployTarget({ branch: mainCommit.branch, commitSha: mainCommit.sha });
+    }
+  };
+
+  // Drop a reviewed change set without committing anything
+  const handleDiscardReview = (messageId: string) => {
+    setMessages(prev => prev.map(m => m.id === messageId && m.pendingChanges ? {
+      ...m,
+      pendingChanges: { ...m.pendingChanges, status: 'discarded' },
+    } : m));
+  };
+
+  // Merge to main: one PR per repo with changes, linked to each other, then the branches are deleted
   const handleMerge = async () => {
     if (!currentBranch) return;
+
+    const targets = workingBranches();
+    const workspaceRepos = getWorkspaceRepos(session);
+    // In a multi-repo workspace, repos without commits on their branch have nothing to merge
+    const changed = workspaceRepos.length > 1
+      ? targets.filter(t => messages.some(m => m.commits?.some(c => c.repo === t.repo.alias && c.branch === t.branch)))
+      : targets;
     
     try {
       setIsLoading(true);
       
-      // Create PR first
-      const pr = await createPR(`Changes from Claude Coder`, currentBranch);
-      setPrUrl(pr.url);
+      // Create PRs first
+      const prs: Array<{ repo: WorkspaceRepo; pr: { number: number; url: string } }> = [];
+      for (const target of changed) {
+        prs.push({ repo: target.repo, pr: await createPR(`Changes from Claude Coder`, target.branch, target.repo) });
+      }
+      setPrUrl(prs[0]?.pr.url || '');
 
-      // Merge it
-      await fetch('/api/github', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          action: 'merge',
-          token: session.githubToken,
-          owner: session.repo?.owner,
-          repo: session.repo?.name,
-          prNumber: pr.number,
-        }),
-      });
+      // Cross-link the PRs of a multi-repo change
+      const prName = ({ repo, pr }: typeof prs[number]) => `${repo.owner}/${repo.name}#${pr.number}`;
+      if (prs.length > 1) {
+        await Promise.all(prs.map(p => githubAction(p.repo, 'updatePR', {
+          prNumber: p.pr.number,
+          body: `${PR_BODY}\n\nRelated pull requests:\n${prs.filter(o => o !== p).map(o => `- ${prName(o)}`).join('\n')}`,
+        })));
+      }
 
-      // Delete branch
-      await fetch('/api/github', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          action: 'delete',
-          token: session.githubToken,
-          owner: session.repo?.owner,
-          repo: session.repo?.name,
-          branchName: currentBranch,
-        }),
-      });
+      // Merge them
+      for (const { repo, pr } of prs) {
+        await githubAction(repo, 'merge', { prNumber: pr.number });
+      }
+
+      // Delete branches
+      await Promise.all(targets.map(t => githubAction(t.repo, 'delete', { branchName: t.branch })));
 
       setMessages(prev => [...prev, {
         id: `merge-${Date.now()}`,
         role: 'assistant',
-        content: `✅ Merged to main and cleaned up branch. Your changes are now live!`,
+        content: prs.length > 1
+          ? `✅ Merged ${prs.map(prName).join(', ')} and cleaned up branches. Your changes are now live!`
+          : `✅ Merged to main and cleaned up branch. Your changes are now live!`,
         timestamp: new Date(),
       }]);
 
       setCurrentBranch('');
+      setRepoBranches({});
       setPrUrl('');
 
     } catch (error: any) {
@@ -300,33 +986,28 @@ export default function Home() {
     }
   };
 
-  // Discard branch
+  // Discard the working branches of every repo in the workspace
   const handleDiscard = async () => {
     if (!currentBranch) return;
+
+    const targets = workingBranches();
     
     try {
       setIsLoading(true);
       
-      await fetch('/api/github', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          action: 'delete',
-          token: session.githubToken,
-          owner: session.repo?.owner,
-          repo: session.repo?.name,
-          branchName: currentBranch,
-        }),
-      });
+      await Promise.all(targets.map(t => githubAction(t.repo, 'delete', { branchName: t.branch })));
 
       setMessages(prev => [...prev, {
         id: `discard-${Date.now()}`,
         role: 'assistant',
-        content: `🗑️ Discarded branch \`${currentBranch}\`. Main branch unchanged.`,
+        content: targets.length > 1
+          ? `🗑️ Discarded branch \`${currentBranch}\` in ${targets.map(t => t.repo.alias).join(', ')}. Main branches unchanged.`
+          : `🗑️ Discarded branch \`${currentBranch}\`. Main branch unchanged.`,
         timestamp: new Date(),
       }]);
 
       setCurrentBranch('');
+      setRepoBranches({});
 
     } catch (error: any) {
       setMessages(prev => [...prev, {
@@ -417,6 +1098,29 @@ export default function Home() {
               </div>
             </div>
 
+            <div>
+              <label className="block text-sm text-gray-400 mb-2">Railway (optional)</label>
+              <div className="space-y-2">
+                <input
+                  type="password"
+                  value={session.railwayToken || ''}
+                  onChange={e => setSession(s => ({ ...s, railwayToken: e.target.value }))}
+                  placeholder="API token"
+                  className="w-full bg-dark-700 border border-dark-500 rounded-lg px-4 py-3 text-white placeholder-gray-500 focus:outline-none focus:border-claude-orange"
+                />
+                <input
+                  type="text"
+                  value={session.railwayProjectId || ''}
+                  onChange={e => setSession(s => ({ ...s, railwayProjectId: e.target.value }))}
+                  placeholder="Project ID"
+                  className="w-full bg-dark-700 border border-dark-500 rounded-lg px-4 py-3 text-white placeholder-gray-500 focus:outline-none focus:border-claude-orange"
+                />
+              </div>
+              <p className="text-xs text-gray-500 mt-1">
+                Shows the build status, preview URL and logs for each branch.
+              </p>
+            </div>
+
             <button
               type="submit"
               className="w-full bg-claude-orange hover:bg-opacity-90 text-white font-medium py-3 rounded-lg transition-all"
@@ -434,9 +1138,21 @@ export default function Home() {
       {/* Header */}
       <header className="border-b border-dark-600 px-4 py-3 flex items-center justify-between bg-dark-800">
         <div className="flex items-center gap-4">
+          <button
+            onClick={() => setShowHistory(!showHistory)}
+            className="p-2 -ml-2 hover:bg-dark-700 rounded-lg transition-colors"
+            title="Conversations"
+          >
+            <History className="w-5 h-5" />
+          </button>
           <h1 className="text-lg font-semibold">Claude Coder</h1>
           <span className="text-sm text-gray-400">
             {session.repo?.owner}/{session.repo?.name}
+            {session.repos && session.repos.length > 0 && (
+              <span title={session.repos.map(r => `${r.alias}: ${r.owner}/${r.name}`).join('\n')}>
+                {' '}+ {session.repos.length} more
+              </span>
+            )}
           </span>
         </div>
         
@@ -448,11 +1164,67 @@ export default function Home() {
               <span className="text-sm">{currentBranch}</span>
             </div>
           )}
+
+          {/* Preview deployment */}
+          {currentBranch && deployStatus && (
+            <div className="flex items-center gap-2 bg-dark-700 px-3 py-1.5 rounded-lg text-sm">
+              <button
+                onClick={() => setShowDeployLogs(!showDeployLogs)}
+                className="flex items-center gap-2"
+                title={deployStatus.error || 'Show deploy logs'}
+              >
+                {deployStatus.status === 'success' ? (
+                  <Check className="w-4 h-4 text-green-400" />
+                ) : deployStatus.status === 'failed' ? (
+                  <X className="w-4 h-4 text-red-400" />
+                ) : (
+                  <Loader2 className="w-4 h-4 animate-spin text-yellow-400" />
+                )}
+                <span>{DEPLOY_LABELS[deployStatus.status]}</span>
+              </button>
+              {deployStatus.url && (
+                <a
+                  href={deployStatus.url}
+                  target="_blank"
+                  className="text-claude-orange hover:underline flex items-center gap-1"
+                >
+                  Preview
+                  <ExternalLink className="w-3 h-3" />
+                </a>
+              )}
+            </div>
+          )}
           
+          {/* Undo / redo the last turn */}
+          <div className="flex items-center">
+            <button
+              onClick={handleUndo}
+              disabled={isLoading || !messages.some(m => m.role === 'user')}
+              className="p-2 hover:bg-dark-700 disabled:opacity-40 disabled:hover:bg-transparent rounded-lg transition-colors"
+              title="Undo last turn"
+            >
+              <Undo2 className="w-4 h-4" />
+            </button>
+            <button
+              onClick={handleRedo}
+              disabled={isLoading || redoStack.length === 0}
+              className="p-2 hover:bg-dark-700 disabled:opacity-40 disabled:hover:bg-transparent rounded-lg transition-colors"
+              title="Redo"
+            >
+              <Redo2 className="w-4 h-4" />
+            </button>
+          </div>
+
           {/* Cost display */}
-          <div className="flex items-center gap-2 text-sm text-gray-400">
+          <div
+            className="flex items-center gap-2 text-sm text-gray-400"
+            title={`Today: $${costTracker.dailyCost.toFixed(4)} • This month: $${costTracker.monthlyCost.toFixed(4)}`}
+          >
             <DollarSign className="w-4 h-4" />
             <span>${costTracker.sessionCost.toFixed(4)}</span>
+            <span className="text-xs text-gray-500">
+              (today ${costTracker.dailyCost.toFixed(2)} • month ${costTracker.monthlyCost.toFixed(2)})
+            </span>
           </div>
           
           {/* Settings */}
@@ -473,6 +1245,88 @@ export default function Home() {
         </div>
       </header>
 
+      {/* Conversation history */}
+      {showHistory && (
+        <aside className="fixed inset-y-0 left-0 z-20 w-72 bg-dark-800 border-r border-dark-600 flex flex-col slide-up">
+          <div className="px-4 py-3 border-b border-dark-600 flex items-center justify-between">
+            <span className="text-sm font-medium">Conversations</span>
+            <button onClick={() => setShowHistory(false)} className="text-gray-400 hover:text-white">
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+          <button
+            onClick={() => {
+              startNewConversation();
+              setShowHistory(false);
+            }}
+            disabled={isLoading}
+            className="mx-3 mt-3 flex items-center justify-center gap-2 px-3 py-2 bg-dark-700 hover:bg-dark-600 disabled:opacity-50 rounded-lg text-sm transition-colors"
+          >
+            <Plus className="w-4 h-4" />
+            New conversation
+          </button>
+          <div className="flex-1 overflow-y-auto p-3 space-y-1">
+            {conversations.length === 0 && (
+              <p className="text-xs text-gray-500 text-center py-4">No saved conversations yet.</p>
+            )}
+            {conversations.map(c => (
+              <div
+                key={c.id}
+                onClick={() => handleOpenConversation(c.id)}
+                className={`group rounded-lg px-3 py-2 cursor-pointer ${
+                  c.id === conversationId ? 'bg-dark-600' : 'hover:bg-dark-700'
+                }`}
+              >
+                <div className="flex items-start justify-between gap-2">
+                  <span className="text-sm line-clamp-2">{c.title}</span>
+                  <button
+                    onClick={e => {
+                      e.stopPropagation();
+                      handleDeleteConversation(c.id);
+                    }}
+                    className="opacity-0 group-hover:opacity-100 text-gray-500 hover:text-red-400 shrink-0"
+                    title="Delete conversation"
+                  >
+                    <Trash2 className="w-3.5 h-3.5" />
+                  </button>
+                </div>
+                {c.branch && (
+                  <div className="flex items-center gap-1 text-xs text-gray-400 font-mono mt-1 truncate">
+                    <GitBranch className="w-3 h-3 shrink-0" />
+                    {c.branch}
+                  </div>
+                )}
+                <div className="text-xs text-gray-500 mt-1">
+                  {new Date(c.updatedAt).toLocaleString()} • {c.messageCount} messages • ${c.cost.toFixed(4)}
+                </div>
+              </div>
+            ))}
+          </div>
+        </aside>
+      )}
+
+      {/* Deploy logs */}
+      {showDeployLogs && currentBranch && deployStatus && (
+        <div className="border-b border-dark-600 px-4 py-3 bg-dark-800">
+          <div className="max-w-3xl mx-auto">
+            <div className="flex items-center justify-between text-xs text-gray-400 mb-2">
+              <span>
+                {deployStatus.provider} deployment of{' '}
+                <span className="font-mono">{currentBranch}</span>
+                {deployStatus.commitSha && <> @ <span className="font-mono">{deployStatus.commitSha.slice(0, 7)}</span></>}
+                {deployStatus.error && <span className="text-red-400"> • {deployStatus.error}</span>}
+              </span>
+              <button onClick={() => setShowDeployLogs(false)} className="hover:text-white">
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+            <pre className="bg-dark-900 rounded-lg p-3 text-xs font-mono text-gray-300 max-h-64 overflow-auto whitespace-pre-wrap">
+              {deployStatus.logs?.length ? deployStatus.logs.join('\n') : 'No logs yet.'}
+            </pre>
+          </div>
+        </div>
+      )}
+
       {/* Settings Panel */}
       {showSettings && (
         <div className="border-b border-dark-600 px-4 py-4 bg-dark-800 slide-up">
@@ -489,6 +1343,33 @@ export default function Home() {
               </select>
             </div>
             
+            <div>
+              <label className="block text-xs text-gray-400 mb-1">Model</label>
+              <select
+                value={settings.model}
+                onChange={e => setSettings(s => ({ ...s, model: e.target.value as SettingsType['model'] }))}
+                className="w-full bg-dark-700 border border-dark-500 rounded px-2 py-1.5 text-sm"
+              >
+                <option value="auto">Auto (route per request)</option>
+                <option value="haiku">Haiku</option>
+                <option value="sonnet">Sonnet</option>
+                <option value="opus">Opus</option>
+              </select>
+            </div>
+
+            <div>
+              <label className="block text-xs text-gray-400 mb-1">Validate edits</label>
+              <select
+                value={settings.validation}
+                onChange={e => setSettings(s => ({ ...s, validation: e.target.value as SettingsType['validation'] }))}
+                className="w-full bg-dark-700 border border-dark-500 rounded px-2 py-1.5 text-sm"
+              >
+                <option value="off">Off</option>
+                <option value="warn">Warn on errors</option>
+                <option value="block">Block commit on errors</option>
+              </select>
+            </div>
+
             <label className="flex items-center gap-2 cursor-pointer">
               <input
                 type="checkbox"
@@ -499,6 +1380,36 @@ export default function Home() {
               <span className="text-sm">Multi-model routing</span>
             </label>
 
+            <label className="flex items-center gap-2 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={settings.streamResponses}
+                onChange={e => setSettings(s => ({ ...s, streamResponses: e.target.checked }))}
+                className="rounded"
+              />
+              <span className="text-sm">Stream responses</span>
+            </label>
+
+            <label className="flex items-center gap-2 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={settings.reviewChanges}
+                onChange={e => setSettings(s => ({ ...s, reviewChanges: e.target.checked }))}
+                className="rounded"
+              />
+              <span className="text-sm">Review changes before commit</span>
+            </label>
+
+            <label className="flex items-center gap-2 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={settings.enableConversationCompression}
+                onChange={e => setSettings(s => ({ ...s, enableConversationCompression: e.target.checked }))}
+                className="rounded"
+              />
+              <span className="text-sm">Conversation compression</span>
+            </label>
+
             <label className="flex items-center gap-2 cursor-pointer">
               <input
                 type="checkbox"
@@ -521,6 +1432,187 @@ export default function Home() {
               />
               <span className="text-sm">Token budget</span>
             </label>
+
+            {settings.tokenBudget.enabled && (
+              <>
+                <div>
+                  <label className="block text-xs text-gray-400 mb-1">Session budget ($)</label>
+                  <input
+                    type="number"
+                    min={0}
+                    step={0.5}
+                    value={settings.tokenBudget.perSession}
+                    onChange={e => setSettings(s => ({
+                      ...s,
+                      tokenBudget: { ...s.tokenBudget, perSession: Number(e.target.value) || 0 }
+                    }))}
+                    className="w-full bg-dark-700 border border-dark-500 rounded px-2 py-1.5 text-sm"
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-xs text-gray-400 mb-1">Daily budget ($)</label>
+                  <input
+                    type="number"
+                    min={0}
+                    step={0.5}
+                    value={settings.tokenBudget.perDay}
+                    onChange={e => setSettings(s => ({
+                      ...s,
+                      tokenBudget: { ...s.tokenBudget, perDay: Number(e.target.value) || 0 }
+                    }))}
+                    className="w-full bg-dark-700 border border-dark-500 rounded px-2 py-1.5 text-sm"
+                  />
+                </div>
+              </>
+            )}
+
+            <label className="flex items-center gap-2 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={settings.autoRecovery.enabled}
+                onChange={e => setSettings(s => ({
+                  ...s,
+                  autoRecovery: { ...s.autoRecovery, enabled: e.target.checked }
+                }))}
+                className="rounded"
+              />
+              <span className="text-sm">Auto-fix failed deploys</span>
+            </label>
+
+            {settings.autoRecovery.enabled && (
+              <>
+                <div>
+                  <label className="block text-xs text-gray-400 mb-1">Max fix attempts</label>
+                  <input
+                    type="number"
+                    min={1}
+                    value={settings.autoRecovery.maxAttempts}
+                    onChange={e => setSettings(s => ({
+                      ...s,
+                      autoRecovery: { ...s.autoRecovery, maxAttempts: Number(e.target.value) || 1 }
+                    }))}
+                    className="w-full bg-dark-700 border border-dark-500 rounded px-2 py-1.5 text-sm"
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-xs text-gray-400 mb-1">Max fix cost ($)</label>
+                  <input
+                    type="number"
+                    min={0}
+                    step={0.5}
+                    value={settings.autoRecovery.maxCost}
+                    onChange={e => setSettings(s => ({
+                      ...s,
+                      autoRecovery: { ...s.autoRecovery, maxCost: Number(e.target.value) || 0 }
+                    }))}
+                    className="w-full bg-dark-700 border border-dark-500 rounded px-2 py-1.5 text-sm"
+                  />
+                </div>
+              </>
+            )}
+
+            <div>
+              <label className="block text-xs text-gray-400 mb-1">Context budget (tokens)</label>
+              <input
+                type="number"
+                min={2000}
+                step={1000}
+                value={settings.contextBudget}
+                onChange={e => setSettings(s => ({ ...s, contextBudget: Number(e.target.value) || 2000 }))}
+                className="w-full bg-dark-700 border border-dark-500 rounded px-2 py-1.5 text-sm"
+              />
+            </div>
+
+            <div>
+              <label className="block text-xs text-gray-400 mb-1">Max steps per turn</label>
+              <input
+                type="number"
+                min={1}
+                value={settings.agentLimits.maxSteps}
+                onChange={e => setSettings(s => ({
+                  ...s,
+                  agentLimits: { ...s.agentLimits, maxSteps: Number(e.target.value) || 1 }
+                }))}
+                className="w-full bg-dark-700 border border-dark-500 rounded px-2 py-1.5 text-sm"
+              />
+            </div>
+
+            <div>
+              <label className="block text-xs text-gray-400 mb-1">Max cost per turn ($)</label>
+              <input
+                type="number"
+                min={0}
+                step={0.1}
+                value={settings.agentLimits.maxCost}
+                onChange={e => setSettings(s => ({
+                  ...s,
+                  agentLimits: { ...s.agentLimits, maxCost: Number(e.target.value) || 0 }
+                }))}
+                className="w-full bg-dark-700 border border-dark-500 rounded px-2 py-1.5 text-sm"
+              />
+            </div>
+
+            {/* Workspace repositories */}
+            <div className="col-span-2 md:col-span-4">
+              <label className="block text-xs text-gray-400 mb-1">
+                Repositories (paths are written alias:path when there are several)
+              </label>
+              <div className="space-y-1 mb-2">
+                {getWorkspaceRepos(session).map((r, i) => (
+                  <div key={r.alias} className="flex items-center gap-2 text-sm">
+                    <span className="font-mono text-claude-orange">{r.alias}</span>
+                    <span className="text-gray-300">{r.owner}/{r.name}</span>
+                    <span className="text-xs text-gray-500">
+                      {i === 0 ? 'main repo' : `from ${r.defaultBranch}`}
+                      {i > 0 && repoBranches[r.alias] && ` • on ${repoBranches[r.alias]}`}
+                    </span>
+                    {i > 0 && (
+                      <button
+                        onClick={() => handleRemoveRepo(r.alias)}
+                        disabled={isLoading}
+                        className="text-gray-500 hover:text-red-400 disabled:opacity-50"
+                        title="Remove from workspace"
+                      >
+                        <X className="w-3.5 h-3.5" />
+                      </button>
+                    )}
+                  </div>
+                ))}
+              </div>
+              <div className="flex gap-2">
+                <input
+                  type="text"
+                  value={newRepo.alias}
+                  onChange={e => setNewRepo(r => ({ ...r, alias: e.target.value }))}
+                  placeholder="alias (e.g. api)"
+                  className="w-28 bg-dark-700 border border-dark-500 rounded px-2 py-1.5 text-sm"
+                />
+                <input
+                  type="text"
+                  value={newRepo.fullName}
+                  onChange={e => setNewRepo(r => ({ ...r, fullName: e.target.value }))}
+                  placeholder="owner/repo"
+                  className="flex-1 bg-dark-700 border border-dark-500 rounded px-2 py-1.5 text-sm"
+                />
+                <input
+                  type="text"
+                  value={newRepo.defaultBranch}
+                  onChange={e => setNewRepo(r => ({ ...r, defaultBranch: e.target.value }))}
+                  placeholder="main"
+                  className="w-24 bg-dark-700 border border-dark-500 rounded px-2 py-1.5 text-sm"
+                />
+                <button
+                  onClick={handleAddRepo}
+                  disabled={isLoading || !/^[^/\s]+\/[^/\s]+$/.test(newRepo.fullName.trim())}
+                  className="flex items-center gap-1 px-3 py-1.5 bg-dark-700 hover:bg-dark-600 disabled:opacity-50 rounded text-sm"
+                >
+                  <Plus className="w-4 h-4" />
+                  Add
+                </button>
+              </div>
+            </div>
           </div>
         </div>
       )}
@@ -535,13 +1627,35 @@ export default function Home() {
             </div>
           )}
           
-          {messages.map(message => (
+          {/* Compressed history */}
+          {conversationSummary && (
+            <details className="bg-dark-800 border border-dark-600 rounded-xl px-4 py-3 text-sm group">
+              <summary className="text-gray-400 cursor-pointer flex items-center gap-1 list-none">
+                <ChevronRight className="w-3 h-3 transition-transform group-open:rotate-90" />
+                📝 Earlier conversation summarized ({conversationSummary.coveredMessages} messages, ~{conversationSummary.tokensSaved.toLocaleString()} tokens saved per request)
+              </summary>
+              <div className="mt-2 whitespace-pre-wrap text-gray-300">{conversationSummary.text}</div>
+            </details>
+          )}
+
+          {messages.map((message, index) => (
             <div
               key={message.id}
-              className={`slide-up ${
+              className={`slide-up group/message relative ${
                 message.role === 'user' ? 'flex justify-end' : ''
               }`}
             >
+              {/* Restore the conversation and branches to this message */}
+              {index < messages.length - 1 && !isLoading && (
+                <button
+                  onClick={() => restoreTo(index + 1)}
+                  className={`absolute -bottom-3 ${message.role === 'user' ? 'right-2' : 'left-2'} z-10 hidden group-hover/message:flex items-center gap-1 px-2 py-0.5 bg-dark-800 border border-dark-500 rounded text-xs text-gray-400 hover:text-white`}
+                  title="Remove later messages and undo their commits"
+                >
+                  <RotateCcw className="w-3 h-3" />
+                  Restore to here
+                </button>
+              )}
               <div
                 className={`max-w-[85%] rounded-xl px-4 py-3 ${
                   message.role === 'user'
@@ -549,20 +1663,126 @@ export default function Home() {
                     : 'bg-dark-700 border border-dark-600'
                 }`}
               >
+                {message.recoveryAttempt && (
+                  <div className="text-xs opacity-80 mb-1">
+                    🔧 Auto-recovery attempt {message.recoveryAttempt.attempt}/{message.recoveryAttempt.maxAttempts}
+                  </div>
+                )}
                 <div className="whitespace-pre-wrap">{message.content}</div>
+
+                {/* Agent trace */}
+                {message.steps && message.steps.some(s => s.toolCalls.length > 0) && (
+                  <details className="mt-3 pt-3 border-t border-dark-500 group">
+                    <summary className="text-xs text-gray-400 cursor-pointer flex items-center gap-1 list-none">
+                      <ChevronRight className="w-3 h-3 transition-transform group-open:rotate-90" />
+                      {message.steps.length} step{message.steps.length === 1 ? '' : 's'}
+                      {message.stopReason && message.stopReason !== 'end_turn' && (
+                        <span className="text-yellow-400"> • stopped: {message.stopReason.replace('_', ' ')}</span>
+                      )}
+                    </summary>
+                    <div className="mt-2 space-y-2">
+                      {message.steps.map(step => (
+                        <div key={step.index} className="text-xs">
+                          <div className="text-gray-500">Step {step.index + 1} • ${step.cost.toFixed(4)}</div>
+                          {step.toolCalls.map(call => (
+                            <div key={call.id} className="font-mono text-gray-300 flex items-start gap-1">
+                              {call.success
+                                ? <Check className="w-3 h-3 mt-0.5 text-green-400 shrink-0" />
+                                : <X className="w-3 h-3 mt-0.5 text-red-400 shrink-0" />}
+                              <span>
+                                {call.name}({call.input?.path || call.input?.query || ''})
+                                {call.error && <span className="text-red-400"> — {call.error}</span>}
+                              </span>
+                            </div>
+                          ))}
+                        </div>
+                      ))}
+                    </div>
+                  </details>
+                )}
                 
                 {/* File changes indicator */}
                 {message.filesChanged && message.filesChanged.length > 0 && (
                   <div className="mt-3 pt-3 border-t border-dark-500">
-                    <p className="text-xs text-gray-400 mb-2">Files changed:</p>
+                    <p className="text-xs text-gray-400 mb-2">
+                      Files changed{message.commits && getWorkspaceRepos(session).length > 1
+                        ? ` in ${message.commits.map(c => `${c.repo}@${c.sha.slice(0, 7)}`).join(', ')}`
+                        : message.commitSha ? ` in ${message.commitSha.slice(0, 7)}` : ''}:
+                    </p>
                     {message.filesChanged.map((f, i) => (
-                      <div key={i} className="text-xs font-mono text-gray-300">
-                        {f.action === 'create' ? '+ ' : '~ '}{f.path}
-                      </div>
+                      <details key={i} className="text-xs font-mono text-gray-300">
+                        <summary className={f.diff ? 'cursor-pointer' : 'list-none'}>
+                          {f.action === 'create' ? '+ ' : f.action === 'delete' ? '- ' : '~ '}{f.path}
+                          {f.additions !== undefined && (
+                            <span className="ml-2">
+                              <span className="text-green-400">+{f.additions}</span>{' '}
+                              <span className="text-red-400">-{f.deletions}</span>
+                            </span>
+                          )}
+                        </summary>
+                        {f.diff && (
+                          <pre className="mt-1 p-2 bg-dark-800 rounded overflow-x-auto">
+                            {f.diff.split('\n').map((line, j) => (
+                              <div
+                                key={j}
+                                className={
+                                  line.startsWith('@@') ? 'text-blue-400'
+                                    : line.startsWith('+') && !line.startsWith('+++') ? 'text-green-400'
+                                    : line.startsWith('-') && !line.startsWith('---') ? 'text-red-400'
+                                    : 'text-gray-400'
+                                }
+                              >
+                                {line || ' '}
+                              </div>
+                            ))}
+                          </pre>
+                        )}
+                      </details>
                     ))}
                   </div>
                 )}
                 
+                {/* Pending changes awaiting review */}
+                {message.pendingChanges && (
+                  <DiffReview
+                    changes={message.pendingChanges}
+                    disabled={isLoading}
+                    onCommit={files => handleCommitReview(message.id, files)}
+                    onDiscard={() => handleDiscardReview(message.id)}
+                  />
+                )}
+
+                {/* Repository context sent with the request */}
+                {message.context && message.context.files.length > 0 && (
+                  <details className="mt-2 group">
+                    <summary className="text-xs text-gray-500 cursor-pointer flex items-center gap-1 list-none">
+                      <ChevronRight className="w-3 h-3 transition-transform group-open:rotate-90" />
+                      Context: {summarizeContext(message.context)}
+                    </summary>
+                    <div className="mt-1 space-y-0.5 text-xs font-mono">
+                      {message.context.files.map(f => (
+                        <div key={f.path} className={f.mode === 'omitted' ? 'text-gray-600' : 'text-gray-400'}>
+                          {f.mode} {f.path}
+                          <span className="text-gray-600">
+                            {' '}• {f.mode === 'full' || f.mode === 'omitted' ? f.fullTokens : `${f.tokens}/${f.fullTokens}`} tokens
+                            {f.reasons.length > 0 && ` • ${f.reasons.join(', ')}`}
+                          </span>
+                        </div>
+                      ))}
+                      {message.context.treeTruncated && (
+                        <div className="text-gray-600">file tree shortened to fit the budget</div>
+                      )}
+                    </div>
+                  </details>
+                )}
+
+                {/* Model used and why it was picked */}
+                {message.model && (
+                  <div className="mt-2 text-xs text-gray-500">
+                    {message.model}{message.modelReason ? ` — ${message.modelReason}` : ''}
+                  </div>
+                )}
+
                 {/* Cost indicator */}
                 {message.cost !== undefined && (
                   <div className="mt-2 text-xs text-gray-400">
@@ -577,7 +1797,7 @@ export default function Home() {
           {isLoading && (
             <div className="flex gap-2 items-center text-gray-400 slide-up">
               <Loader2 className="w-4 h-4 animate-spin" />
-              <span>Claude is thinking...</span>
+              <span>{liveStatus || 'Claude is thinking...'}</span>
             </div>
           )}
           
@@ -591,6 +1811,9 @@ export default function Home() {
           <div className="max-w-3xl mx-auto flex items-center justify-between">
             <div className="text-sm text-gray-400">
               Changes are on <span className="text-white font-mono">{currentBranch}</span>
+              {Object.keys(repoBranches).length > 0 && (
+                <> in {getWorkspaceRepos(session).filter((r, i) => i === 0 || repoBranches[r.alias]).map(r => r.alias).join(', ')}</>
+              )}
             </div>
             <div className="flex gap-2">
               <button
@@ -614,13 +1837,40 @@ export default function Home() {
 
       {/* Input */}
       <div className="border-t border-dark-600 p-4 bg-dark-800">
-        <div className="max-w-3xl mx-auto flex gap-3">
+        <div className="max-w-3xl mx-auto flex gap-3 relative">
+          {/* Slash command autocomplete */}
+          {suggestions.length > 0 && !isLoading && (
+            <div className="absolute bottom-full left-0 right-16 mb-2 bg-dark-700 border border-dark-500 rounded-xl overflow-hidden shadow-lg">
+              {suggestions.map((suggestion, i) => (
+                <button
+                  key={suggestion.value}
+                  onMouseDown={e => {
+                    e.preventDefault();
+                    setInput(suggestion.value);
+                    setSuggestionIndex(0);
+                  }}
+                  className={`w-full text-left px-4 py-2 flex items-baseline gap-3 ${
+                    i === Math.min(suggestionIndex, suggestions.length - 1) ? 'bg-dark-600' : 'hover:bg-dark-600'
+                  }`}
+                >
+                  <span className="font-mono text-sm">{suggestion.label}</span>
+                  <span className="text-xs text-gray-400 truncate">{suggestion.description}</span>
+                </button>
+              ))}
+            </div>
+          )}
+
           <input
             type="text"
             value={input}
-            onChange={e => setInput(e.target.value)}
-            onKeyDown={e => e.key === 'Enter' && !e.shiftKey && handleSend()}
-            placeholder="Describe what you want to build or fix..."
+            onChange={e => {
+              setInput(e.target.value);
+              setSuggestionIndex(0);
+            }}
+            onKeyDown={handleInputKeyDown}
+            placeholder={settings.preBuiltCommands
+              ? 'Describe what you want to build or fix, or type / for commands...'
+              : 'Describe what you want to build or fix...'}
             className="flex-1 bg-dark-700 border border-dark-500 rounded-xl px-4 py-3 text-white placeholder-gray-500 focus:outline-none focus:border-claude-orange"
             disabled={isLoading}
           />
@@ -634,7 +1884,5 @@ export default function Home() {
         </div>
       </div>
     </div>
-  </div>
-    </PasswordProtection>
   );
 }
@@ -0,0 +1,187 @@
+'use client';
+
+import { useState } from 'react';
+import { Check, X, FileDiff } from 'lucide-react';
+import { DiffHunk, DiffLine, PendingChangeSet } from '@/types';
+import { applyHunks } from '@/lib/diff';
+
+interface DiffReviewProps {
+  changes: PendingChangeSet;
+  disabled?: boolean;
+  onCommit: (files: Array<{ path: string; content: string | null; from?: string }>) => void;
+  onDiscard: () => void;
+}
+
+// One row of the side-by-side view; either side may be empty
+interface DiffRow {
+  left?: DiffLine;
+  right?: DiffLine;
+}
+
+// Pair removed lines with the added lines that replace them
+function toRows(lines: DiffLine[]): DiffRow[] {
+  const rows: DiffRow[] = [];
+  let i = 0;
+  while (i < lines.length) {
+    if (lines[i].type === 'context') {
+      rows.push({ left: lines[i], right: lines[i] });
+      i++;
+      continue;
+    }
+
+    const removed: DiffLine[] = [];
+    const added: DiffLine[] = [];
+    while (i < lines.length && lines[i].type === 'remove') removed.push(lines[i++]);
+    while (i < lines.length && lines[i].type === 'add') added.push(lines[i++]);
+
+    for (let j = 0; j < Math.max(removed.length, added.length); j++) {
+      rows.push({ left: removed[j], right: added[j] });
+    }
+  }
+  return rows;
+}
+
+function HunkView({ hunk, accepted, onToggle, disabled }: {
+  hunk: DiffHunk;
+  accepted: boolean;
+  onToggle: () => void;
+  disabled?: boolean;
+}) {
+  const cell = (line: DiffLine | undefined, side: 'left' | 'right') => {
+    const number = side === 'left' ? line?.oldLine : line?.newLine;
+    const color = !line
+      ? 'bg-dark-800'
+      : line.type === 'remove'
+        ? 'bg-red-900/40'
+        : line.type === 'add'
+          ? 'bg-green-900/40'
+          : '';
+    return (
+      <>
+        <td className={`w-10 pr-2 text-right text-gray-500 select-none align-top ${color}`}>{number ?? ''}</td>
+        <td className={`w-1/2 whitespace-pre-wrap break-all align-top ${color}`}>{line?.text ?? ''}</td>
+      </>
+    );
+  };
+
+  return (
+    <div className={`border border-dark-500 rounded mb-2 ${accepted ? '' : 'opacity-50'}`}>
+      <label className="flex items-center gap-2 px-2 py-1 bg-dark-800 text-gray-400 cursor-pointer">
+        <input type="checkbox" checked={accepted} onChange={onToggle} disabled={disabled} className="rounded" />
+        @@ -{hunk.oldStart},{hunk.oldLines} +{hunk.newStart},{hunk.newLines} @@
+      </label>
+      <table className="w-full font-mono text-xs border-collapse">
+        <tbody>
+          {toRows(hunk.lines).map((row, i) => (
+            <tr key={i}>
+              {cell(row.left, 'left')}
+              {cell(row.right, 'right')}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+// Side-by-side review of a pending change set with per-file and per-hunk approval
+export default function DiffReview({ changes, disabled, onCommit, onDiscard }: DiffReviewProps) {
+  const [accepted, setAccepted] = useState<Record<string, boolean[]>>(() =>
+    Object.fromEntries(changes.files.map(f => [f.path, f.hunks.map(() => true)]))
+  );
+
+  const isPending = changes.status === 'pending';
+
+  const toggleHunk = (path: string, index: number) => {
+    setAccepted(a => ({ ...a, [path]: a[path].map((v, i) => i === index ? !v : v) }));
+  };
+
+  const toggleFile = (path: string, value: boolean) => {
+    setAccepted(a => ({ ...a, [path]: a[path].map(() => value) }));
+  };
+
+  // Final content of every file with at least one accepted hunk
+  const buildCommitFiles = () => {
+    const files: Array<{ path: string; content: string | null; from?: string }> = [];
+    for (const file of changes.files) {
+      const fileAccepted = accepted[file.path];
+      if (!fileAccepted.some(Boolean)) continue;
+
+      if (fileAccepted.every(Boolean)) {
+        files.push({ path: file.path, content: file.proposed, from: file.movedFrom });
+      } else {
+        files.push({
+          path: file.path,
+          content: applyHunks(file.original, file.proposed, file.hunks, fileAccepted),
+          from: file.movedFrom,
+        });
+      }
+    }
+    return files;
+  };
+
+  const acceptedCount = changes.files.filter(f => accepted[f.path].some(Boolean)).length;
+
+  return (
+    <div className="mt-3 pt-3 border-t border-dark-500">
+      <p className="text-xs text-gray-400 mb-2 flex items-center gap-1">
+        <FileDiff className="w-3 h-3" />
+        {isPending
+          ? `Review ${changes.files.length} file${changes.files.length === 1 ? '' : 's'} before committing to ${changes.branch}`
+          : changes.status === 'committed' ? 'Reviewed changes committed' : 'Proposed changes discarded'}
+      </p>
+
+      {isPending && changes.files.map(file => {
+        const fileAccepted = accepted[file.path];
+        return (
+          <details key={file.path} open className="mb-3">
+            <summary className="flex items-center gap-2 text-xs font-mono text-gray-300 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={fileAccepted.every(Boolean)}
+                ref={el => { if (el) el.indeterminate = fileAccepted.some(Boolean) && !fileAccepted.every(Boolean); }}
+                onChange={e => toggleFile(file.path, e.target.checked)}
+                onClick={e => e.stopPropagation()}
+                disabled={disabled}
+                className="rounded"
+              />
+              {file.action === 'create' ? '+ ' : file.action === 'delete' ? '- ' : '~ '}{file.path}
+            </summary>
+            <div className="mt-2 overflow-x-auto">
+              {file.hunks.map((hunk, i) => (
+                <HunkView
+                  key={i}
+                  hunk={hunk}
+                  accepted={fileAccepted[i]}
+                  onToggle={() => toggleHunk(file.path, i)}
+                  disabled={disabled}
+                />
+              ))}
+            </div>
+          </details>
+        );
+      })}
+
+      {isPending && (
+        <div className="flex gap-2 justify-end">
+          <button
+            onClick={onDiscard}
+            disabled={disabled}
+            className="flex items-center gap-1 px-3 py-1.5 text-xs bg-dark-600 hover:bg-dark-500 rounded-lg text-red-400 disabled:opacity-50"
+          >
+            <X className="w-3 h-3" />
+            Reject all
+          </button>
+          <button
+            onClick={() => onCommit(buildCommitFiles())}
+            disabled={disabled || acceptedCount === 0}
+            className="flex items-center gap-1 px-3 py-1.5 text-xs bg-green-600 hover:bg-green-500 rounded-lg text-white disabled:opacity-50"
+          >
+            <Check className="w-3 h-3" />
+            Commit {acceptedCount} file{acceptedCount === 1 ? '' : 's'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,195 @@
+import { ClaudeClient, ModelKey } from '@/lib/claude';
+import { escalateModel, describeModel } from '@/lib/router';
+import { AgentStep, AgentStopReason, ChatMessage, ContentBlock, StreamEvent, ToolCall, ToolCallTrace } from '@/types';
+
+// Default limits for a single agent turn
+export const DEFAULT_AGENT_LIMITS = {
+  maxSteps: 10,
+  maxCost: 1.00,
+};
+
+// Tools that modify files; repeated failures here trigger model escalation
+export const EDIT_TOOLS = new Set(['str_replace', 'create_file', 'insert', 'delete_file', 'move_file']);
+
+// Tool results longer than this are truncated before going back to Claude
+const MAX_TOOL_OUTPUT_CHARS = 50_000;
+
+export interface ToolExecutionResult {
+  success: boolean;
+  result?: any;
+  error?: string;
+}
+
+export type ToolExecutor = (call: ToolCall) => Promise<ToolExecutionResult>;
+
+export interface AgentRunOptions {
+  claude: ClaudeClient;
+  messages: ChatMessage[];
+  systemPrompt: string;
+  codeContext: string;
+  executeTool: ToolExecutor;
+  // Tool definitions offered to Claude; the client's defaults when omitted
+  tools?: any[];
+  maxSteps?: number;
+  maxCost?: number;
+  // Switch to a stronger model after this many consecutive failed edits (0 = never)
+  escalateAfterFailures?: number;
+  // Strongest model escalation may switch to (what the budget allows); no limit when omitted
+  maxModel?: ModelKey;
+  // Receives live progress; when set, Claude's text is streamed as deltas
+  onEvent?: (event: StreamEvent) => void;
+}
+
+export interface AgentRunResult {
+  content: string;
+  steps: AgentStep[];
+  toolCalls: ToolCallTrace[];
+  stopReason: AgentStopReason;
+  // Model in use when the loop ended, and why it changed (if it did)
+  model: ModelKey;
+  escalation?: string;
+  cost: number;
+  tokensUsed: {
+    input: number;
+    output: number;
+    cacheRead: number;
+    cacheWrite: number;
+  };
+}
+
+// Run Claude in a loop, feeding tool results back until it ends its turn or a limit is hit
+export async function runAgentLoop(options: AgentRunOptions): Promise<AgentRunResult> {
+  const {
+    claude,
+    systemPrompt,
+    codeContext,
+    executeTool,
+    tools,
+    maxSteps = DEFAULT_AGENT_LIMITS.maxSteps,
+    maxCost = DEFAULT_AGENT_LIMITS.maxCost,
+    escalateAfterFailures = 0,
+    maxModel,
+    onEvent,
+  } = options;
+
+  const messages: ChatMessage[] = [...options.messages];
+  const steps: AgentStep[] = [];
+  const tokensUsed = { input: 0, output: 0, cacheRead: 0, cacheWrite: 0 };
+  let cost = 0;
+  let stopReason: AgentStopReason = 'max_steps';
+  let failedEdits = 0;
+  let escalation: string | undefined;
+
+  for (let index = 0; index < maxSteps; index++) {
+    onEvent?.({ type: 'step_start', index });
+    const onText = onEvent ? (text: string) => onEvent({ type: 'text', text }) : undefined;
+    const response = await claude.chat(messages, systemPrompt, codeContext, tools, onText);
+
+    cost += response.cost;
+    tokensUsed.input += response.usage.input_tokens || 0;
+    tokensUsed.output += response.usage.output_tokens || 0;
+    tokensUsed.cacheRead += response.usage.cache_read_input_tokens || 0;
+    tokensUsed.cacheWrite += response.usage.cache_creation_input_tokens || 0;
+
+    const step: AgentStep = {
+      index,
+      text: response.content,
+      toolCalls: [],
+      stopReason: response.stopReason,
+      cost: response.cost,
+    };
+    steps.push(step);
+
+    messages.push({ role: 'assistant', content: response.contentBlocks });
+
+    if (response.stopReason !== 'tool_use' || !response.toolCalls) {
+      stopReason = toAgentStopReason(response.stopReason);
+      break;
+    }
+
+    // Run every requested tool and answer each tool_use with a matching tool_result
+    const results: ContentBlock[] = [];
+    for (const call of response.toolCalls) {
+      onEvent?.({ type: 'tool_start', call });
+      const result = await executeTool(call);
+      const output = formatToolOutput(result);
+
+      const trace: ToolCallTrace = {
+        ...call,
+        success: result.success,
+        output: result.success ? output : undefined,
+        error: result.success ? undefined : result.error,
+      };
+      step.toolCalls.push(trace);
+      onEvent?.({ type: 'tool_end', call: trace });
+
+      if (EDIT_TOOLS.has(call.name)) {
+        failedEdits = result.success ? 0 : failedEdits + 1;
+      }
+      results.push({
+        type: 'tool_result',
+        tool_use_id: call.id,
+        content: output,
+        is_error: !result.success || undefined,
+      });
+    }
+    messages.push({ role: 'user', content: results });
+
+    // Edits keep failing: let a stronger model take over the rest of the turn
+    if (escalateAfterFailures > 0 && failedEdits >= escalateAfterFailures) {
+      const current = claude.getModel();
+      const next = escalateModel(current, maxModel);
+      if (next) {
+        claude.setModel(next);
+        escalation = `Escalated from ${describeModel(current)} to ${describeModel(next)} after ${failedEdits} failed edits`;
+        onEvent?.({ type: 'model', model: next, reason: escalation });
+      }
+      failedEdits = 0;
+    }
+
+    if (cost >= maxCost) {
+      stopReason = 'cost_limit';
+      break;
+    }
+  }
+
+  return {
+    content: steps.map(s => s.text).filter(Boolean).join('\n\n'),
+    steps,
+    toolCalls: steps.flatMap(s => s.toolCalls),
+    stopReason,
+    model: claude.getModel(),
+    escalation,
+    cost,
+    tokensUsed,
+  };
+}
+
+// Convert a tool result into the string content Claude sees
+function formatToolOutput(result: ToolExecutionResult): string {
+  let output: string;
+  if (!result.success) {
+    output = `Error: ${result.error || 'Tool failed'}`;
+  } else if (result.result === undefined) {
+    output = 'Success';
+  } else if (typeof result.result === 'string') {
+    output = result.result;
+  } else {
+    output = JSON.stringify(result.result, null, 2);
+  }
+
+  if (output.length > MAX_TOOL_OUTPUT_CHARS) {
+    output = output.slice(0, MAX_TOOL_OUTPUT_CHARS) + `\n... [truncated ${output.length - MAX_TOOL_OUTPUT_CHARS} characters]`;
+  }
+  return output;
+}
+
+function toAgentStopReason(stopReason: string): AgentStopReason {
+  switch (stopReason) {
+    case 'max_tokens':
+    case 'refusal':
+      return stopReason;
+    default:
+      return 'end_turn';
+  }
+}
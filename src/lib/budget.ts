@@ -0,0 +1,88 @@
+import { ClaudeClient, MODELS, ModelKey, calculateCost, estimateTokens } from '@/lib/claude';
+import { describeModel } from '@/lib/router';
+import { ChatMessage, Settings } from '@/types';
+
+// Output tokens assumed for the first step when estimating a request
+const EXPECTED_OUTPUT_TOKENS = 2_000;
+
+export interface BudgetSpend {
+  session: number;
+  day: number;
+}
+
+export interface BudgetCheck {
+  allowed: boolean;
+  model: ModelKey;
+  estimate: number;
+  // Dollars left before the tighter of the two limits is reached
+  remaining: number;
+  // Strongest model whose estimate still fits; escalation during the turn stops there
+  maxModel: ModelKey;
+  message?: string;
+}
+
+// Estimate the cost of the first call of a turn using the API's token counter
+export async function estimateRequestCost(
+  claude: ClaudeClient,
+  messages: ChatMessage[],
+  systemPrompt: string,
+  codeContext: string
+): Promise<{ inputTokens: number; cost: number }> {
+  const inputTokens = await claude.countTokens(messages, systemPrompt, codeContext).catch(() =>
+    // Fall back to a character-based estimate if counting is unavailable
+    estimateTokens(systemPrompt + codeContext + JSON.stringify(messages))
+  );
+
+  return {
+    inputTokens,
+    cost: calculateCost(claude.getModel(), { input_tokens: inputTokens, output_tokens: EXPECTED_OUTPUT_TOKENS }),
+  };
+}
+
+// Check a request against the session and daily budgets. If the chosen model
+// would overrun them, try cheaper models before refusing.
+export function checkBudget(
+  model: ModelKey,
+  inputTokens: number,
+  spent: BudgetSpend,
+  budget: Settings['tokenBudget']
+): BudgetCheck {
+  const remaining = Math.max(0, Math.min(budget.perSession - spent.session, budget.perDay - spent.day));
+  const estimateFor = (m: ModelKey) =>
+    calculateCost(m, { input_tokens: inputTokens, output_tokens: EXPECTED_OUTPUT_TOKENS });
+
+  const estimate = estimateFor(model);
+  const maxModel = [MODELS.opus, MODELS.sonnet, MODELS.haiku].find(m => estimateFor(m) <= remaining) || model;
+  if (estimate <= remaining) {
+    return { allowed: true, model, estimate, remaining, maxModel };
+  }
+
+  // Cheaper models, most capable first
+  const fallbacks = [MODELS.sonnet, MODELS.haiku].filter(m => estimateFor(m) < estimate);
+  for (const fallback of fallbacks) {
+    const fallbackEstimate = estimateFor(fallback);
+    if (fallbackEstimate <= remaining) {
+      return {
+        allowed: true,
+        model: fallback,
+        estimate: fallbackEstimate,
+        remaining,
+        maxModel,
+        message: `Budget: switched from ${describeModel(model)} to ${describeModel(fallback)} ` +
+          `(estimated $${estimate.toFixed(4)}, $${remaining.toFixed(4)} left)`,
+      };
+    }
+  }
+
+  const limit = budget.perSession - spent.session <= budget.perDay - spent.day ? 'session' : 'daily';
+  return {
+    allowed: false,
+    model,
+    estimate,
+    remaining,
+    maxModel,
+    message: `💰 This request was not sent: it is estimated at $${estimate.toFixed(4)}, ` +
+      `but only $${remaining.toFixed(4)} of your ${limit} budget is left. ` +
+      `Raise the budget in settings or start a new session.`,
+  };
+}
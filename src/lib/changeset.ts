@@ -0,0 +1,272 @@
+import { RepoClient, isNotFound } from '@/lib/repo-client';
+import { computeHunks, toFileChange } from '@/lib/diff';
+import { findMatch, adaptReplacement, formatCandidates, formatLocations } from '@/lib/match';
+import { FileChange, PendingChangeSet } from '@/types';
+
+interface StagedFile {
+  path: string;
+  // Content at the base commit (null if the file did not exist)
+  original: string | null;
+  // Content after the staged edits (null if the file is deleted)
+  content: string | null;
+  // Base path this file was moved from, whose mode it keeps
+  movedFrom?: string;
+}
+
+// Edits from one assistant turn, held in memory and committed together
+export class ChangeSet {
+  private github: RepoClient;
+  private branch: string;
+  private baseSha: string;
+  private files = new Map<string, StagedFile>();
+
+  private constructor(github: RepoClient, branch: string, baseSha: string) {
+    this.github = github;
+    this.branch = branch;
+    this.baseSha = baseSha;
+  }
+
+  // Start a change set on top of the branch's current head
+  static async open(github: RepoClient, branch: string): Promise<ChangeSet> {
+    const baseSha = await github.getBranchSHA(branch);
+    return new ChangeSet(github, branch, baseSha);
+  }
+
+  getBaseSha(): string {
+    return this.baseSha;
+  }
+
+  // Load a file into the change set, reading it at the base commit
+  private async load(path: string): Promise<StagedFile> {
+    let staged = this.files.get(path);
+    if (!staged) {
+      // Only a missing file counts as new; any other failure must not let an edit overwrite it
+      const original = await this.github.getFileContent(path, this.baseSha)
+        .then(f => f.content)
+        .catch(error => {
+          if (isNotFound(error)) return null;
+          throw error;
+        });
+      staged = { path, original, content: original };
+      this.files.set(path, staged);
+    }
+    return staged;
+  }
+
+  // Read a file as it looks with the staged edits applied
+  async read(path: string): Promise<string> {
+    const staged = await this.load(path);
+    if (staged.content === null) {
+      throw new Error(`File not found: ${path}`);
+    }
+    return staged.content;
+  }
+
+  // Apply str_replace edit in memory
+  async strReplace(
+    path: string,
+    oldStr: string,
+    newStr: string
+  ): Promise<{ success: boolean; result?: string; error?: string }> {
+    const staged = await this.load(path);
+    if (staged.content === null) {
+      return { success: false, error: `File not found: ${path}` };
+    }
+
+    const result = applyStrReplace(staged.content, oldStr, newStr, path);
+    if (!result.success) {
+      return { success: false, error: result.error };
+    }
+
+    staged.content = result.content!;
+    return { success: true, result: result.note };
+  }
+
+  // Create (or overwrite) a file in memory
+  async createFile(path: string, content: string): Promise<void> {
+    const staged = await this.load(path);
+    staged.content = content;
+  }
+
+  // Insert text after a line (0 inserts at the top) in memory
+  async insert(path: string, line: number, text: string): Promise<{ success: boolean; error?: string }> {
+    const staged = await this.load(path);
+    if (staged.content === null) {
+      return { success: false, error: `File not found: ${path}` };
+    }
+
+    const result = insertLines(staged.content, line, text, path);
+    if (!result.success) {
+      return { success: false, error: result.error };
+    }
+
+    staged.content = result.content!;
+    return { success: true };
+  }
+
+  // Delete a file in memory
+  async deleteFile(path: string): Promise<{ success: boolean; error?: string }> {
+    const staged = await this.load(path);
+    if (staged.content === null) {
+      return { success: false, error: `File not found: ${path}` };
+    }
+    staged.content = null;
+    return { success: true };
+  }
+
+  // Move a file in memory: a delete of the old path and a create of the new one
+  async moveFile(from: string, to: string): Promise<{ success: boolean; error?: string }> {
+    const source = await this.load(from);
+    const target = await this.load(to);
+    if (source.content === null) {
+      return { success: false, error: `File not found: ${from}` };
+    }
+    if (target.content !== null) {
+      return { success: false, error: `File already exists: ${to}` };
+    }
+    target.content = source.content;
+    // A file moved twice keeps the mode of where it started
+    target.movedFrom = source.original === null ? source.movedFrom : from;
+    source.content = null;
+    return { success: true };
+  }
+
+  // Files whose content differs from the base commit
+  getChanges(): StagedFile[] {
+    return [...this.files.values()].filter(f => f.content !== f.original);
+  }
+
+  // Staged content of every changed file (null if deleted), for reads that must see it
+  getStagedContents(): Map<string, string | null> {
+    return new Map(this.getChanges().map(f => [f.path, f.content]));
+  }
+
+  // Base commit content of each changed file (null for new files)
+  getOriginalContents(): Map<string, string | null> {
+    return new Map(this.getChanges().map(f => [f.path, f.original]));
+  }
+
+  hasChanges(): boolean {
+    return this.getChanges().length > 0;
+  }
+
+  // Summarize the staged changes for the UI, with unified diffs against the base commit
+  getFileChanges(): FileChange[] {
+    return this.getChanges().map(f => toFileChange(f.path, f.original, f.content));
+  }
+
+  // Current change to a single file, or null if it matches the base commit
+  getFileChange(path: string): FileChange | null {
+    const staged = this.files.get(path);
+    if (!staged || staged.content === staged.original) return null;
+    return toFileChange(path, staged.original, staged.content);
+  }
+
+  // Hold the staged changes for review instead of committing them
+  toPending(message: string): PendingChangeSet {
+    return {
+      branch: this.branch,
+      baseSha: this.baseSha,
+      message,
+      status: 'pending',
+      files: this.getChanges().map(f => ({
+        path: f.path,
+        action: f.original === null ? 'create' : f.content === null ? 'delete' : 'edit',
+        original: f.original,
+        proposed: f.content,
+        hunks: computeHunks(f.original, f.content),
+        movedFrom: f.movedFrom,
+      })),
+    };
+  }
+
+  // Write every staged change as a single commit. Returns the new commit SHA.
+  async commit(message: string): Promise<string> {
+    const changes = this.getChanges();
+    const sha = await this.github.commitFiles(
+      this.branch,
+      changes.map(f => ({ path: f.path, content: f.content, from: f.movedFrom })),
+      message,
+      this.baseSha
+    );
+
+    // The committed state becomes the new base
+    this.baseSha = sha;
+    for (const f of changes) {
+      f.original = f.content;
+      f.movedFrom = undefined;
+    }
+    return sha;
+  }
+}
+
+// Replace a unique occurrence of oldStr in content. An exact match is tried
+// first, then one tolerant of line endings and whitespace (see findMatch).
+export function applyStrReplace(
+  content: string,
+  oldStr: string,
+  newStr: string,
+  path: string
+): { success: boolean; content?: string; error?: string; note?: string } {
+  const match = findMatch(content, oldStr);
+
+  if (match.kind === 'none') {
+    const closest = formatCandidates(content, match.candidates);
+    return {
+      success: false,
+      error: closest
+        ? `String not found in ${path}. Closest matches:\n\n${closest}`
+        : `String not found in ${path}. Make sure the string is unique and exact.`
+    };
+  }
+
+  if (match.kind === 'ambiguous') {
+    return {
+      success: false,
+      error: `String found ${match.regions.length} times in ${path}. It must be unique for safe replacement; ` +
+        `include more surrounding lines in old_str to pick one:\n\n${formatLocations(content, match.regions)}`
+    };
+  }
+
+  const { region, strategy } = match;
+  // Slices rather than String.replace, so `$` sequences in newStr are inserted literally
+  const replacement = strategy === 'exact' ? newStr : adaptReplacement(content, region, strategy, oldStr, newStr);
+  return {
+    success: true,
+    content: content.slice(0, region.start) + replacement + content.slice(region.end),
+    note: strategy === 'exact'
+      ? undefined
+      : `old_str did not match exactly; replaced lines ${region.startLine}-${region.endLine}, ` +
+        `matched ignoring ${strategy === 'whitespace' ? 'whitespace and indentation' : 'line endings'}.`,
+  };
+}
+
+// Insert text after a 1-based line of content (0 inserts before the first line)
+export function insertLines(
+  content: string,
+  line: number,
+  text: string,
+  path: string
+): { success: boolean; content?: string; error?: string } {
+  const lines = content === '' ? [] : content.split('\n');
+  const trailingNewline = content === '' || lines[lines.length - 1] === '';
+  if (lines[lines.length - 1] === '') lines.pop();
+
+  if (!Number.isInteger(line) || line < 0 || line > lines.length) {
+    return {
+      success: false,
+      error: `Line ${line} is out of range for ${path}, which has ${lines.length} lines. Use 0 to insert at the top.`
+    };
+  }
+
+  lines.splice(line, 0, ...text.replace(/\n$/, '').split('\n'));
+  return { success: true, content: lines.join('\n') + (trailingNewline ? '\n' : '') };
+}
+
+// Build a commit message for the edits made in one assistant turn
+export function buildCommitMessage(request: string, changes: FileChange[]): string {
+  const firstLine = request.split('\n')[0].trim();
+  const subject = firstLine.length > 72 ? `${firstLine.slice(0, 69)}...` : firstLine;
+  const body = changes.map(c => `- ${c.action} ${c.path}`).join('\n');
+  return `${subject || 'Update files'}\n\n${body}`;
+}
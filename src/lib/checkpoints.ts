@@ -0,0 +1,40 @@
+import { Message, RepoCommit } from '@/types';
+
+// A branch to move so a repo matches a point in the conversation
+export interface BranchMove {
+  // Workspace alias of the repo
+  repo: string;
+  branch: string;
+  sha: string;
+}
+
+function movesFrom(commits: RepoCommit[], target: (commit: RepoCommit) => string, keepFirst: boolean): BranchMove[] {
+  const moves = new Map<string, BranchMove>();
+  for (const commit of commits) {
+    const key = `${commit.repo}:${commit.branch}`;
+    if (keepFirst && moves.has(key)) continue;
+    moves.set(key, { repo: commit.repo, branch: commit.branch, sha: target(commit) });
+  }
+  return [...moves.values()];
+}
+
+// Undo: each branch the removed messages committed to goes back to its head
+// before the first of those commits
+export function undoMoves(removed: Message[]): BranchMove[] {
+  return movesFrom(removed.flatMap(m => m.commits || []), c => c.parentSha, true);
+}
+
+// Redo: each branch goes forward to the last commit of the restored messages
+export function redoMoves(restored: Message[]): BranchMove[] {
+  return movesFrom(restored.flatMap(m => m.commits || []), c => c.sha, false);
+}
+
+// Every commit of a repo the conversation knows: heads a reset may move away from
+export function knownShas(messages: Message[], repo: string): string[] {
+  return [...new Set(
+    messages
+      .flatMap(m => m.commits || [])
+      .filter(c => c.repo === repo)
+      .flatMap(c => [c.parentSha, c.sha])
+  )];
+}
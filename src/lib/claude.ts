@@ -1,8 +1,14 @@
 import Anthropic from '@anthropic-ai/sdk';
-import { Message, FileChange, CostTracker } from '@/types';
+import { CostTracker, ChatMessage, ContentBlock, ToolCall } from '@/types';
 
 // Pricing per million tokens (as of Dec 2024)
 const PRICING = {
+  'claude-haiku-4-5-20251001': {
+    input: 1.00,
+    output: 5.00,
+    cacheWrite: 1.25,
+    cacheRead: 0.10,
+  },
   'claude-sonnet-4-5-20250929': {
     input: 3.00,
     output: 15.00,
@@ -17,12 +23,45 @@ const PRICING = {
   },
 };
 
-type ModelKey = keyof typeof PRICING;
+export type ModelKey = keyof typeof PRICING;
+
+// Model tiers, cheapest first
+export const MODELS: Record<'haiku' | 'sonnet' | 'opus', ModelKey> = {
+  haiku: 'claude-haiku-4-5-20251001',
+  sonnet: 'claude-sonnet-4-5-20250929',
+  opus: 'claude-opus-4-5-20251101',
+};
+
+export const MODEL_LABELS: Record<ModelKey, string> = {
+  'claude-haiku-4-5-20251001': 'Haiku 4.5',
+  'claude-sonnet-4-5-20250929': 'Sonnet 4.5',
+  'claude-opus-4-5-20251101': 'Opus 4.5',
+};
+
+// Rough token estimate (~4 characters per token) for routing decisions
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+// Cost in dollars of an API usage block for a model
+export function calculateCost(model: ModelKey, usage: any): number {
+  const pricing = PRICING[model];
+  const inputCost = (usage.input_tokens || 0) * pricing.input / 1_000_000;
+  const outputCost = (usage.output_tokens || 0) * pricing.output / 1_000_000;
+  const cacheWriteCost = (usage.cache_creation_input_tokens || 0) * pricing.cacheWrite / 1_000_000;
+  const cacheReadCost = (usage.cache_read_input_tokens || 0) * pricing.cacheRead / 1_000_000;
+
+  return inputCost + outputCost + cacheWriteCost + cacheReadCost;
+}
+
+// Called after every API call with the model used and its cost
+export type UsageListener = (record: { model: ModelKey; usage: any; cost: number }) => void;
 
 export class ClaudeClient {
   private client: Anthropic;
   private model: ModelKey;
   private costTracker: CostTracker;
+  private usageListener?: UsageListener;
 
   constructor(apiKey: string, model: ModelKey = 'claude-sonnet-4-5-20250929') {
     this.client = new Anthropic({ apiKey });
@@ -37,18 +76,13 @@ export class ClaudeClient {
 
   // Calculate cost from usage
   private calculateCost(usage: any): number {
-    const pricing = PRICING[this.model];
-    const inputCost = (usage.input_tokens || 0) * pricing.input / 1_000_000;
-    const outputCost = (usage.output_tokens || 0) * pricing.output / 1_000_000;
-    const cacheWriteCost = (usage.cache_creation_input_tokens || 0) * pricing.cacheWrite / 1_000_000;
-    const cacheReadCost = (usage.cache_read_input_tokens || 0) * pricing.cacheRead / 1_000_000;
-    
-    return inputCost + outputCost + cacheWriteCost + cacheReadCost;
+    return calculateCost(this.model, usage);
   }
 
   // Update cost tracker
   private updateCostTracker(usage: any): void {
     const cost = this.calculateCost(usage);
+    this.usageListener?.({ model: this.model, usage, cost });
     this.costTracker.sessionCost += cost;
     this.costTracker.dailyCost += cost;
     this.costTracker.monthlyCost += cost;
@@ -59,6 +93,20 @@ export class ClaudeClient {
     this.costTracker.tokensUsed.cacheWrite += usage.cache_creation_input_tokens || 0;
   }
 
+  // Report every API call (e.g. to the persistent cost ledger)
+  setUsageListener(listener: UsageListener): void {
+    this.usageListener = listener;
+  }
+
+  getModel(): ModelKey {
+    return this.model;
+  }
+
+  // Switch models mid-conversation (e.g. to escalate after failed edits)
+  setModel(model: ModelKey): void {
+    this.model = model;
+  }
+
   getCostTracker(): CostTracker {
     return { ...this.costTracker };
   }
@@ -68,72 +116,143 @@ export class ClaudeClient {
     this.costTracker.tokensUsed = { input: 0, output: 0, cacheRead: 0, cacheWrite: 0 };
   }
 
-  // Main chat function with prompt caching
-  async chat(
-    messages: Array<{ role: 'user' | 'assistant'; content: string }>,
+  // Request parameters shared by chat and token counting
+  private buildParams(
+    messages: ChatMessage[],
     systemPrompt: string,
     codeContext: string,
     tools?: any[]
-  ): Promise<{
-    content: string;
-    toolCalls?: any[];
-    usage: any;
-    cost: number;
-  }> {
-    const response = await this.client.messages.create({
+  ) {
+    return {
       model: this.model,
       max_tokens: 8192,
       system: [
         {
-          type: 'text',
+          type: 'text' as const,
           text: systemPrompt,
         },
         {
-          type: 'text',
+          type: 'text' as const,
           text: codeContext,
           // Enable caching for the code context
-          cache_control: { type: 'ephemeral' },
+          cache_control: { type: 'ephemeral' as const },
         },
       ],
       messages: messages.map(m => ({
         role: m.role,
         content: m.content,
       })),
-      tools: tools || this.getDefaultTools(),
-    });
+      tools: tools || this.getTools(),
+    };
+  }
+
+  // Count the input tokens a chat request would use, without running it
+  async countTokens(
+    messages: ChatMessage[],
+    systemPrompt: string,
+    codeContext: string,
+    tools?: any[]
+  ): Promise<number> {
+    const { max_tokens, ...params } = this.buildParams(messages, systemPrompt, codeContext, tools);
+    const result = await this.client.messages.countTokens(params);
+    return result.input_tokens;
+  }
+
+  // Main chat function with prompt caching. Pass onText to stream text deltas as they arrive.
+  async chat(
+    messages: ChatMessage[],
+    systemPrompt: string,
+    codeContext: string,
+    tools?: any[],
+    onText?: (delta: string) => void
+  ): Promise<{
+    content: string;
+    contentBlocks: ContentBlock[];
+    toolCalls?: ToolCall[];
+    stopReason: string;
+    usage: any;
+    cost: number;
+  }> {
+    const params = this.buildParams(messages, systemPrompt, codeContext, tools);
+
+    let response: Anthropic.Message;
+    if (onText) {
+      const stream = this.client.messages.stream(params);
+      stream.on('text', onText);
+      response = await stream.finalMessage();
+    } else {
+      response = await this.client.messages.create(params);
+    }
 
     this.updateCostTracker(response.usage);
 
-    // Extract text and tool calls
+    // Extract text and tool calls, keeping the raw blocks so tool_use can be echoed back
     let content = '';
-    const toolCalls: any[] = [];
+    const contentBlocks: ContentBlock[] = [];
+    const toolCalls: ToolCall[] = [];
 
     for (const block of response.content) {
       if (block.type === 'text') {
         content += block.text;
+        contentBlocks.push({ type: 'text', text: block.text });
       } else if (block.type === 'tool_use') {
         toolCalls.push({
           id: block.id,
           name: block.name,
           input: block.input,
         });
+        contentBlocks.push({ type: 'tool_use', id: block.id, name: block.name, input: block.input });
       }
     }
 
     return {
       content,
+      contentBlocks,
       toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+      stopReason: response.stop_reason || 'end_turn',
+      usage: response.usage,
+      cost: this.calculateCost(response.usage),
+    };
+  }
+
+  // Plain completion without tools or code context (summaries, classification)
+  async complete(
+    prompt: string,
+    systemPrompt: string,
+    maxTokens: number = 2048
+  ): Promise<{ content: string; usage: any; cost: number }> {
+    const response = await this.client.messages.create({
+      model: this.model,
+      max_tokens: maxTokens,
+      system: systemPrompt,
+      messages: [{ role: 'user', content: prompt }],
+    });
+
+    this.updateCostTracker(response.usage);
+
+    const content = response.content
+      .map(block => block.type === 'text' ? block.text : '')
+      .join('');
+
+    return {
+      content,
       usage: response.usage,
       cost: this.calculateCost(response.usage),
     };
   }
 
+  // Tools for code editing, optionally limited to the given names
+  getTools(allowed?: string[]) {
+    const tools = this.getDefaultTools();
+    return allowed ? tools.filter(t => allowed.includes(t.name)) : tools;
+  }
+
   // Default tools for code editing
   private getDefaultTools() {
     return [
       {
         name: 'read_file',
-        description: 'Read the contents of a file from the repository',
+        description: 'Read the contents of a file from the repository. With start_line/end_line, returns only those lines, each prefixed with its line number. Long files are returned in pages.',
         input_schema: {
           type: 'object',
           properties: {
@@ -141,6 +260,28 @@ export class ClaudeClient {
               type: 'string',
               description: 'The path to the file relative to repo root',
             },
+            start_line: {
+              type: 'number',
+              description: 'First line to return (1-based, inclusive)',
+            },
+            end_line: {
+              type: 'number',
+              description: 'Last line to return (inclusive)',
+            },
+          },
+          required: ['path'],
+        },
+      },
+      {
+        name: 'list_directory',
+        description: 'List the files and subdirectories directly inside a directory, with file sizes',
+        input_schema: {
+          type: 'object',
+          properties: {
+            path: {
+              type: 'string',
+              description: 'The directory relative to repo root (empty for the root)',
+            },
           },
           required: ['path'],
         },
@@ -185,20 +326,101 @@ export class ClaudeClient {
           required: ['path', 'content'],
         },
       },
+      {
+        name: 'insert',
+        description: 'Insert text after a line of a file. Use line 0 to insert at the top.',
+        input_schema: {
+          type: 'object',
+          properties: {
+            path: {
+              type: 'string',
+              description: 'The path to the file to edit',
+            },
+            line: {
+              type: 'number',
+              description: 'The line to insert after (1-based; 0 for the top of the file)',
+            },
+            text: {
+              type: 'string',
+              description: 'The lines to insert',
+            },
+          },
+          required: ['path', 'line', 'text'],
+        },
+      },
+      {
+        name: 'delete_file',
+        description: 'Delete a file from the repository',
+        input_schema: {
+          type: 'object',
+          properties: {
+            path: {
+              type: 'string',
+              description: 'The path to the file to delete',
+            },
+          },
+          required: ['path'],
+        },
+      },
+      {
+        name: 'move_file',
+        description: 'Move or rename a file. TypeScript/JavaScript imports of the file (and the file\'s own relative imports) are updated to the new path.',
+        input_schema: {
+          type: 'object',
+          properties: {
+            path: {
+              type: 'string',
+              description: 'The current path of the file',
+            },
+            new_path: {
+              type: 'string',
+              description: 'The path to move it to (must not exist yet)',
+            },
+          },
+          required: ['path', 'new_path'],
+        },
+      },
       {
         name: 'search_files',
-        description: 'Search for files in the repository that contain a specific term',
+        description: 'Search the repository on the working branch. Returns the best matching files, ranked, with matching lines and their line numbers.',
         input_schema: {
           type: 'object',
           properties: {
             query: {
               type: 'string',
-              description: 'The search term to look for',
+              description: 'Words or identifiers to look for (camelCase and snake_case names also match their parts)',
+            },
+            kind: {
+              type: 'string',
+              enum: ['text', 'symbol'],
+              description: 'text (default) searches file contents and paths; symbol finds where functions, classes, types and variables with that name are defined',
             },
           },
           required: ['query'],
         },
       },
+      {
+        name: 'run_command',
+        description: 'Run a test, lint, type-check or build command in a checkout of the repository with your edits applied, and get its output and exit code. Only allow-listed commands work (e.g. npm test, npx tsc --noEmit); no shell, pipes or redirects.',
+        input_schema: {
+          type: 'object',
+          properties: {
+            command: {
+              type: 'string',
+              description: 'The command line, e.g. "npm test" or "npx tsc --noEmit"',
+            },
+            repo: {
+              type: 'string',
+              description: 'Repository alias to run it in when the workspace has several (main repository by default)',
+            },
+            timeout_seconds: {
+              type: 'number',
+              description: 'Time limit in seconds (default 120, max 600)',
+            },
+          },
+          required: ['command'],
+        },
+      },
     ];
   }
 }
@@ -209,7 +431,7 @@ export const CODING_SYSTEM_PROMPT = `You are an expert software engineer helping
 IMPORTANT RULES:
 1. Use str_replace for edits - never rewrite entire files
 2. The old_str must be UNIQUE and EXACT (including whitespace)
-3. If you need to see more files, use read_file
+3. If you need to see more files, use read_file (with start_line/end_line for long files) or list_directory
 4. Always explain what you're doing before making changes
 5. Make minimal, focused changes
 
@@ -217,47 +439,32 @@ WORKFLOW:
 1. Analyze the request
 2. Identify which files need to change
 3. Request additional files if needed
-4. Make changes using str_replace or create_file
-5. Explain what was changed and why
+4. Make changes using str_replace, insert or create_file; use move_file and delete_file to rename or remove files
+5. Check the tool results - they are sent back to you, so you can read a file and then edit it in the same turn
+6. Explain what was changed and why
 
 If a str_replace fails because the string wasn't unique, try using a larger context string that includes more surrounding code.`;
 
 // Generate context string from files
 export function generateCodeContext(
   fileTree: string,
-  files: Array<{ path: string; content: string }>
+  files: Array<{ path: string; content: string; note?: string }>,
+  omitted: string[] = []
 ): string {
   let context = `## Repository Structure\n\`\`\`\n${fileTree}\n\`\`\`\n\n`;
   context += `## Loaded Files\n\n`;
   
   for (const file of files) {
     const ext = file.path.split('.').pop() || '';
-    context += `### ${file.path}\n\`\`\`${ext}\n${file.content}\n\`\`\`\n\n`;
+    const note = file.note ? ` (${file.note})` : '';
+    context += `### ${file.path}${note}\n\`\`\`${ext}\n${file.content}\n\`\`\`\n\n`;
+  }
+
+  if (omitted.length > 0) {
+    context += `## Related Files Not Loaded\n${omitted.map(p => `- ${p}`).join('\n')}\n\n`;
   }
   
   context += `\nIf you need to see other files, use the read_file tool.\n`;
   
   return context;
 }
-
-// Parse file changes from Claude's response
-export function parseFileChanges(toolCalls: any[]): FileChange[] {
-  const changes: FileChange[] = [];
-  
-  for (const call of toolCalls) {
-    if (call.name === 'str_replace') {
-      changes.push({
-        path: call.input.path,
-        action: 'edit',
-        diff: `- ${call.input.old_str}\n+ ${call.input.new_str}`,
-      });
-    } else if (call.name === 'create_file') {
-      changes.push({
-        path: call.input.path,
-        action: 'create',
-      });
-    }
-  }
-  
-  return changes;
-}
@@ -0,0 +1,409 @@
+import { RepoClient } from '@/lib/repo-client';
+
+// Files above this size, or past this count, are left out of the index
+const MAX_FILE_SIZE = 256 * 1024;
+const MAX_FILES = 5000;
+// Blob downloads in flight at once while indexing
+const FETCH_CONCURRENCY = 8;
+// Indexes kept in memory: repositories, and branches per repository (least recently used go first)
+const MAX_STORES = 10;
+const MAX_SNAPSHOTS = 10;
+const MAX_SNIPPETS = 3;
+const MAX_SNIPPET_LENGTH = 200;
+// BM25 parameters: term frequency saturation and file length normalization
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+// Dependencies, build output, lock files and binaries
+const SKIPPED_PATH = /(^|\/)(node_modules|dist|build|out|\.next|vendor|coverage)\/|(^|\/)(package-lock\.json|yarn\.lock|pnpm-lock\.yaml)$|\.(png|jpe?g|gif|webp|ico|bmp|pdf|zip|gz|tgz|woff2?|ttf|otf|eot|mp3|mp4|mov|wasm|map|lock)$|\.min\.js$/i;
+
+// Words that say nothing about which file is meant
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'can', 'do', 'does', 'for', 'from', 'how',
+  'i', 'in', 'into', 'is', 'it', 'its', 'me', 'my', 'of', 'on', 'or', 'our', 'please', 'so', 'that',
+  'the', 'then', 'there', 'this', 'to', 'up', 'us', 'we', 'what', 'when', 'where', 'which', 'why',
+  'will', 'with', 'you', 'your', 'add', 'change', 'fix', 'make', 'update', 'should', 'would', 'could',
+  'after', 'all', 'also', 'before', 'been', 'has', 'have', 'just', 'like', 'need', 'not', 'only',
+  'want', 'was', 'were',
+]);
+
+// Declarations in common languages; the first group is the symbol name
+const SYMBOL_PATTERNS: Array<[RegExp, string]> = [
+  [/^\s*(?:export\s+)?(?:default\s+)?(?:async\s+)?function\s*\*?\s*([A-Za-z_$][\w$]*)/, 'function'],
+  [/^\s*(?:export\s+)?(?:default\s+)?(?:abstract\s+)?class\s+([A-Za-z_$][\w$]*)/, 'class'],
+  [/^\s*(?:export\s+)?interface\s+([A-Za-z_$][\w$]*)/, 'interface'],
+  [/^\s*(?:export\s+)?type\s+([A-Za-z_$][\w$]*)\s*(?:<[^>]*>)?\s*=/, 'type'],
+  [/^\s*(?:export\s+)?(?:const\s+)?enum\s+([A-Za-z_$][\w$]*)/, 'enum'],
+  [/^\s*(?:export\s+)?(?:const|let|var)\s+([A-Za-z_$][\w$]*)\s*(?::[^=]+)?=/, 'variable'],
+  [/^\s+(?:(?:public|private|protected|static|readonly|async|override)\s+)*([A-Za-z_$][\w$]*)\s*(?:<[^>]*>)?\([^)]*\)\s*(?::[^{=]+)?\{\s*$/, 'method'],
+  [/^\s*(?:async\s+)?def\s+([A-Za-z_]\w*)/, 'function'],
+  [/^\s*func\s+(?:\([^)]*\)\s*)?([A-Za-z_]\w*)/, 'function'],
+  [/^\s*(?:pub(?:\([^)]*\))?\s+)?(?:fn|struct|trait|enum)\s+([A-Za-z_]\w*)/, 'function'],
+];
+
+// Control-flow keywords the method pattern would otherwise pick up
+const NOT_SYMBOLS = new Set(['if', 'for', 'while', 'switch', 'catch', 'return', 'function', 'constructor']);
+
+export interface CodeSymbol {
+  name: string;
+  kind: string;
+  line: number;
+}
+
+export interface SearchMatch {
+  line: number;
+  text: string;
+}
+
+export interface SearchResult {
+  path: string;
+  score: number;
+  matches: SearchMatch[];
+  // Symbols defined in the file that match the query
+  symbols: string[];
+}
+
+export interface SearchOptions {
+  limit?: number;
+  // Only files that define a symbol matching the query
+  symbolsOnly?: boolean;
+  // Content not yet committed, by path (null for deleted files); searched instead of the branch's
+  overlay?: Map<string, string | null>;
+}
+
+interface IndexedBlob {
+  lines: string[];
+  // Term -> number of occurrences
+  terms: Map<string, number>;
+  // Total number of terms
+  length: number;
+  symbols: CodeSymbol[];
+}
+
+interface BranchSnapshot {
+  commitSha: string;
+  // Path -> blob SHA
+  files: Map<string, string>;
+}
+
+// Index data for one repository. Blobs are keyed by SHA, so branches share
+// unchanged files and a new commit only downloads the blobs it changed.
+interface IndexStore {
+  blobs: Map<string, IndexedBlob>;
+  // Term -> SHAs of blobs containing it
+  postings: Map<string, Set<string>>;
+  // Sum of blob lengths, for the average used in ranking
+  totalLength: number;
+  snapshots: Map<string, BranchSnapshot>;
+  // Builds in progress by commit SHA, shared by concurrent requests
+  building: Map<string, Promise<BranchSnapshot>>;
+}
+
+// Map iteration follows insertion order, so the first entry is the least recently used
+const stores = new Map<string, IndexStore>();
+
+function getStore(repo: string): IndexStore {
+  let store = stores.get(repo);
+  if (store) {
+    stores.delete(repo);
+  } else {
+    store = { blobs: new Map(), postings: new Map(), totalLength: 0, snapshots: new Map(), building: new Map() };
+  }
+  stores.set(repo, store);
+  for (const [oldest, { building }] of stores) {
+    if (stores.size <= MAX_STORES) break;
+    if (building.size === 0) stores.delete(oldest);
+  }
+  return store;
+}
+
+// Forget a deleted branch's index, and the blobs only it used
+export function dropBranchIndex(repo: string, branch: string): void {
+  const store = stores.get(repo);
+  if (store?.snapshots.delete(branch)) {
+    pruneBlobs(store);
+  }
+}
+
+// "getFileContent" -> ["get", "file", "content"]
+function splitIdentifier(word: string): string[] {
+  return word
+    .split(/[_$]+|(?<=[a-z0-9])(?=[A-Z])|(?<=[A-Z])(?=[A-Z][a-z])/)
+    .filter(Boolean)
+    .map(part => part.toLowerCase());
+}
+
+// Lowercased identifiers plus their camelCase/snake_case parts
+export function tokenize(text: string): string[] {
+  const terms: string[] = [];
+  for (const word of text.match(/[A-Za-z_$][\w$]*|\d+/g) || []) {
+    const lower = word.toLowerCase();
+    if (lower.length >= 2) terms.push(lower);
+    const parts = splitIdentifier(word);
+    if (parts.length > 1) {
+      terms.push(...parts.filter(p => p.length >= 2));
+    }
+  }
+  return terms;
+}
+
+export function extractSymbols(lines: string[]): CodeSymbol[] {
+  const symbols: CodeSymbol[] = [];
+  lines.forEach((text, i) => {
+    for (const [pattern, kind] of SYMBOL_PATTERNS) {
+      const match = text.match(pattern);
+      if (match && !NOT_SYMBOLS.has(match[1])) {
+        symbols.push({ name: match[1], kind, line: i + 1 });
+        break;
+      }
+    }
+  });
+  return symbols;
+}
+
+function indexContent(content: string): IndexedBlob {
+  // Binary content is kept as an empty entry so it is not downloaded again
+  if (content.includes('\u0000')) {
+    return { lines: [], terms: new Map(), length: 0, symbols: [] };
+  }
+
+  const lines = content.split('\n');
+  const tokens = tokenize(content);
+  const terms = new Map<string, number>();
+  for (const term of tokens) {
+    terms.set(term, (terms.get(term) || 0) + 1);
+  }
+  return { lines, terms, length: tokens.length, symbols: extractSymbols(lines) };
+}
+
+function addBlob(store: IndexStore, sha: string, blob: IndexedBlob): void {
+  store.blobs.set(sha, blob);
+  store.totalLength += blob.length;
+  for (const term of blob.terms.keys()) {
+    let shas = store.postings.get(term);
+    if (!shas) {
+      shas = new Set();
+      store.postings.set(term, shas);
+    }
+    shas.add(sha);
+  }
+}
+
+// Drop blobs no branch refers to any more
+function pruneBlobs(store: IndexStore): void {
+  if (store.building.size > 0) return;
+
+  const live = new Set<string>();
+  for (const snapshot of store.snapshots.values()) {
+    for (const sha of snapshot.files.values()) live.add(sha);
+  }
+
+  for (const [sha, blob] of store.blobs) {
+    if (live.has(sha)) continue;
+    for (const term of blob.terms.keys()) {
+      const shas = store.postings.get(term);
+      shas?.delete(sha);
+      if (shas?.size === 0) store.postings.delete(term);
+    }
+    store.blobs.delete(sha);
+    store.totalLength -= blob.length;
+  }
+}
+
+// Run tasks with at most `limit` in flight
+export async function runLimited<T>(items: T[], limit: number, task: (item: T) => Promise<void>): Promise<void> {
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      await task(items[next++]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+}
+
+// Full-text and symbol search over a repository, built from its git tree and
+// blobs instead of GitHub code search, so it works on any branch.
+export class CodeIndex {
+  private store: IndexStore;
+  // Branches already brought up to date by this client (one check per request)
+  private synced = new Map<string, Promise<BranchSnapshot>>();
+
+  constructor(private github: RepoClient) {
+    this.store = getStore(github.getRepoName());
+  }
+
+  // Bring the index up to date with the branch head
+  sync(branch: string): Promise<BranchSnapshot> {
+    let pending = this.synced.get(branch);
+    if (!pending) {
+      pending = this.syncBranch(branch);
+      this.synced.set(branch, pending);
+      pending.catch(() => this.synced.delete(branch));
+    }
+    return pending;
+  }
+
+  private async syncBranch(branch: string): Promise<BranchSnapshot> {
+    // Always asked with this client's token, so access is checked even when the index is warm
+    const commitSha = await this.github.getBranchSHA(branch);
+    const current = this.store.snapshots.get(branch);
+    if (current?.commitSha === commitSha) {
+      // Most recently used last
+      this.store.snapshots.delete(branch);
+      this.store.snapshots.set(branch, current);
+      return current;
+    }
+
+    let building = this.store.building.get(commitSha);
+    if (!building) {
+      building = this.build(commitSha);
+      this.store.building.set(commitSha, building);
+    }
+
+    // The build stays registered until its snapshot is stored, so pruning never drops its blobs
+    let snapshot: BranchSnapshot;
+    try {
+      snapshot = await building;
+      this.store.snapshots.delete(branch);
+      this.store.snapshots.set(branch, snapshot);
+      for (const oldest of this.store.snapshots.keys()) {
+        if (this.store.snapshots.size <= MAX_SNAPSHOTS) break;
+        this.store.snapshots.delete(oldest);
+      }
+    } finally {
+      this.store.building.delete(commitSha);
+    }
+    pruneBlobs(this.store);
+    return snapshot;
+  }
+
+  private async build(commitSha: string): Promise<BranchSnapshot> {
+    const entries = (await this.github.getTreeEntries(commitSha))
+      .filter(e => e.size <= MAX_FILE_SIZE && !SKIPPED_PATH.test(e.path))
+      .slice(0, MAX_FILES);
+
+    // Only blobs we have not seen in any branch are downloaded
+    const missing = [...new Set(entries.map(e => e.sha))].filter(sha => !this.store.blobs.has(sha));
+    await runLimited(missing, FETCH_CONCURRENCY, async sha => {
+      const content = await this.github.getBlob(sha).catch(() => null);
+      if (content !== null) {
+        addBlob(this.store, sha, indexContent(content));
+      }
+    });
+
+    return {
+      commitSha,
+      files: new Map(entries.filter(e => this.store.blobs.has(e.sha)).map(e => [e.path, e.sha])),
+    };
+  }
+
+  // Ranked files for a query, with the lines that matched
+  async search(query: string, branch: string, options: SearchOptions = {}): Promise<SearchResult[]> {
+    const snapshot = await this.sync(branch);
+    const limit = options.limit ?? 20;
+
+    const queryTerms = [...new Set(tokenize(query))].filter(t => !STOP_WORDS.has(t));
+    if (queryTerms.length === 0) return [];
+
+    const phrase = query.trim().toLowerCase();
+    // Identifiers exactly as written, for symbol name matches
+    const queryWords = new Set((query.match(/[A-Za-z_$][\w$]*/g) || []).map(w => w.toLowerCase()));
+    const totalBlobs = Math.max(1, this.store.blobs.size);
+    const averageLength = Math.max(1, this.store.totalLength / totalBlobs);
+    const idf = (term: string) => Math.log(1 + totalBlobs / (1 + (this.store.postings.get(term)?.size || 0)));
+
+    const files: Array<[string, IndexedBlob]> = [];
+    for (const [path, sha] of snapshot.files) {
+      if (options.overlay?.has(path)) continue;
+      // Gone if another branch was dropped or evicted while this search waited
+      const blob = this.store.blobs.get(sha);
+      if (blob) files.push([path, blob]);
+    }
+    for (const [path, content] of options.overlay || []) {
+      if (content !== null) files.push([path, indexContent(content)]);
+    }
+
+    const results: SearchResult[] = [];
+    for (const [path, blob] of files) {
+      const pathTerms = new Set(tokenize(path));
+
+      // BM25 over contents, plus a boost for terms in the path
+      const lengthNorm = 1 - BM25_B + BM25_B * (blob.length / averageLength);
+      let score = 0;
+      let matched = 0;
+      for (const term of queryTerms) {
+        const count = blob.terms.get(term) || 0;
+        const inPath = pathTerms.has(term);
+        if (count === 0 && !inPath) continue;
+        matched++;
+        if (count > 0) score += idf(term) * (count * (BM25_K1 + 1)) / (count + BM25_K1 * lengthNorm);
+        if (inPath) score += idf(term) * 2;
+      }
+
+      const symbols = blob.symbols.filter(s => {
+        const name = s.name.toLowerCase();
+        return queryWords.has(name) || (options.symbolsOnly && [...queryWords].some(w => name.startsWith(w)));
+      });
+      if (options.symbolsOnly && symbols.length === 0) continue;
+      if (matched === 0) continue;
+
+      score += symbols.length * 10;
+      // Files matching every term rank above files matching a few
+      score *= 0.5 + 0.5 * (matched / queryTerms.length);
+
+      const matches = options.symbolsOnly
+        ? symbols.slice(0, MAX_SNIPPETS).map(s => snippet(blob.lines, s.line))
+        : findSnippets(blob, queryTerms, phrase, symbols);
+      if (!options.symbolsOnly && matches.some(m => m.text.toLowerCase().includes(phrase))) {
+        score += 5;
+      }
+
+      results.push({ path, score, matches, symbols: [...new Set(symbols.map(s => s.name))] });
+    }
+
+    return results
+      .sort((a, b) => b.score - a.score || a.path.localeCompare(b.path))
+      .slice(0, limit);
+  }
+
+  // Paths in the branch (as indexed)
+  async listPaths(branch: string): Promise<string[]> {
+    const snapshot = await this.sync(branch);
+    return [...snapshot.files.keys()];
+  }
+}
+
+function snippet(lines: string[], line: number): SearchMatch {
+  return { line, text: lines[line - 1].trim().slice(0, MAX_SNIPPET_LENGTH) };
+}
+
+// The lines that best match the query: the exact phrase, then most terms, then definitions
+function findSnippets(blob: IndexedBlob, terms: string[], phrase: string, symbols: CodeSymbol[]): SearchMatch[] {
+  const definitionLines = new Set(symbols.map(s => s.line));
+  const scored: Array<{ line: number; score: number }> = [];
+
+  blob.lines.forEach((text, i) => {
+    const lower = text.toLowerCase();
+    const hits = terms.filter(t => lower.includes(t)).length;
+    if (hits === 0) return;
+    const score = hits +
+      (phrase.length >= 3 && lower.includes(phrase) ? 10 : 0) +
+      (definitionLines.has(i + 1) ? 2 : 0);
+    scored.push({ line: i + 1, score });
+  });
+
+  return scored
+    .sort((a, b) => b.score - a.score || a.line - b.line)
+    .slice(0, MAX_SNIPPETS)
+    .sort((a, b) => a.line - b.line)
+    .map(s => snippet(blob.lines, s.line));
+}
+
+// Search results as text for the search_files tool
+export function formatSearchResults(results: SearchResult[]): string {
+  if (results.length === 0) return 'No matches found.';
+  return results.map(r => [
+    r.path + (r.symbols.length > 0 ? ` (defines ${r.symbols.join(', ')})` : ''),
+    ...r.matches.map(m => `  ${m.line}: ${m.text}`),
+  ].join('\n')).join('\n\n');
+}
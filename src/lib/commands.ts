@@ -0,0 +1,223 @@
+import type { RepoClient } from '@/lib/repo-client';
+import { SlashCommand } from '@/types';
+
+// Where teams define their own commands in the target repo
+export const REPO_COMMANDS_PATH = '.claude-coder/commands.json';
+
+// Tools that only read the repository
+const READ_ONLY_TOOLS = ['read_file', 'list_directory', 'search_files'];
+
+export const BUILTIN_COMMANDS: SlashCommand[] = [
+  {
+    name: 'fix',
+    description: 'Find and fix a bug',
+    args: [{ name: 'description', description: 'What is broken', type: 'text', required: true }],
+    prompt: 'Find and fix this bug: {{description}}\n\nLocate the root cause first, then make the smallest change that fixes it. Explain the cause and the fix.',
+    model: 'sonnet',
+    context: 'search',
+    source: 'builtin',
+  },
+  {
+    name: 'review',
+    description: 'Review a file for bugs, risks and style issues',
+    args: [{ name: 'path', description: 'File to review', type: 'path', required: true }],
+    prompt: 'Review {{path}}. List concrete problems (bugs, edge cases, security, performance, readability) with line references, most important first. Do not edit any files.',
+    allowedTools: READ_ONLY_TOOLS,
+    model: 'sonnet',
+    context: 'args',
+    source: 'builtin',
+  },
+  {
+    name: 'test',
+    description: 'Write tests for a file',
+    args: [{ name: 'path', description: 'File to test', type: 'path', required: true }],
+    prompt: 'Write tests for {{path}}. Follow the test framework, file layout and style the repository already uses; look at existing tests first. Cover the main behaviour and edge cases.',
+    model: 'sonnet',
+    context: 'args',
+    source: 'builtin',
+  },
+  {
+    name: 'explain',
+    description: 'Explain how a file or feature works',
+    args: [{ name: 'path', description: 'File or topic to explain', type: 'path', required: true }],
+    prompt: 'Explain how {{path}} works: its purpose, main flow, and how it connects to the rest of the codebase. Do not edit any files.',
+    allowedTools: READ_ONLY_TOOLS,
+    model: 'haiku',
+    context: 'args',
+    source: 'builtin',
+  },
+  {
+    name: 'refactor',
+    description: 'Refactor a file without changing behaviour',
+    args: [
+      { name: 'path', description: 'File to refactor', type: 'path', required: true },
+      { name: 'goal', description: 'What to improve', type: 'text' },
+    ],
+    prompt: 'Refactor {{path}} without changing its behaviour. Goal: {{goal}}\n\nKeep public interfaces stable and update every caller if one has to change.',
+    model: 'opus',
+    context: 'args',
+    source: 'builtin',
+  },
+];
+
+const COMMAND_NAME = /^[a-z][a-z0-9-]*$/;
+
+// Check one entry from a repo's commands.json, returning null if it is unusable
+function parseRepoCommand(raw: any): SlashCommand | null {
+  if (!raw || typeof raw.name !== 'string' || !COMMAND_NAME.test(raw.name) || typeof raw.prompt !== 'string') {
+    return null;
+  }
+
+  return {
+    name: raw.name,
+    description: typeof raw.description === 'string' ? raw.description : '',
+    args: Array.isArray(raw.args)
+      ? raw.args
+        .filter((a: any) => a && typeof a.name === 'string')
+        .map((a: any) => ({
+          name: a.name,
+          description: typeof a.description === 'string' ? a.description : '',
+          type: a.type === 'path' ? 'path' : 'text',
+          required: !!a.required,
+        }))
+      : [],
+    prompt: raw.prompt,
+    allowedTools: Array.isArray(raw.allowedTools) ? raw.allowedTools.filter((t: any) => typeof t === 'string') : undefined,
+    model: ['haiku', 'sonnet', 'opus'].includes(raw.model) ? raw.model : undefined,
+    context: ['search', 'args', 'none'].includes(raw.context) ? raw.context : 'search',
+    source: 'repo',
+  };
+}
+
+// Built-in commands plus those defined in the repo. Repo commands override built-ins of the same name.
+export async function loadCommands(github: RepoClient, branch: string): Promise<SlashCommand[]> {
+  let repoCommands: SlashCommand[] = [];
+  try {
+    const file = await github.getFileContent(REPO_COMMANDS_PATH, branch);
+    const config = JSON.parse(file.content);
+    const list = Array.isArray(config) ? config : config.commands;
+    if (Array.isArray(list)) {
+      repoCommands = list.map(parseRepoCommand).filter((c): c is SlashCommand => c !== null);
+    }
+  } catch {
+    // No config file (or an invalid one): built-ins only
+  }
+
+  const names = new Set(repoCommands.map(c => c.name));
+  return [...BUILTIN_COMMANDS.filter(c => !names.has(c.name)), ...repoCommands];
+}
+
+export interface ParsedCommand {
+  command: SlashCommand;
+  args: Record<string, string>;
+}
+
+// Parse "/name arg1 rest of text". The last argument takes the rest of the line.
+export function parseSlashCommand(
+  message: string,
+  commands: SlashCommand[]
+): ParsedCommand | { error: string } | null {
+  const match = message.trim().match(/^\/([a-z][a-z0-9-]*)(?:\s+([\s\S]*))?$/);
+  if (!match) return null;
+
+  const command = commands.find(c => c.name === match[1]);
+  if (!command) {
+    return { error: `Unknown command /${match[1]}. Available: ${commands.map(c => `/${c.name}`).join(', ')}` };
+  }
+
+  const argDefs = command.args || [];
+  let rest = (match[2] || '').trim();
+  const args: Record<string, string> = {};
+
+  argDefs.forEach((def, i) => {
+    if (i === argDefs.length - 1) {
+      args[def.name] = rest;
+      rest = '';
+    } else {
+      const [first, ...others] = rest.split(/\s+/);
+      args[def.name] = first || '';
+      rest = others.join(' ');
+    }
+  });
+
+  const missing = argDefs.filter(d => d.required && !args[d.name]);
+  if (missing.length > 0) {
+    return { error: `Usage: ${formatUsage(command)} (missing ${missing.map(d => d.name).join(', ')})` };
+  }
+
+  return { command, args };
+}
+
+// Fill a command's prompt template; {{input}} is every argument joined.
+// One pass over the template, so placeholders typed in the arguments stay as typed.
+export function expandCommand({ command, args }: ParsedCommand): string {
+  const input = Object.values(args).filter(Boolean).join(' ');
+  return command.prompt.replace(/\{\{\s*([a-zA-Z0-9_-]+)\s*\}\}/g, (_, name) => {
+    if (name === 'input') return input;
+    return Object.prototype.hasOwnProperty.call(args, name) && args[name] ? args[name] : '(not specified)';
+  });
+}
+
+// Paths passed as arguments, used by the 'args' context strategy
+export function getPathArgs({ command, args }: ParsedCommand): string[] {
+  return (command.args || [])
+    .filter(d => d.type === 'path' && args[d.name])
+    .map(d => args[d.name]);
+}
+
+export function formatUsage(command: SlashCommand): string {
+  const args = (command.args || []).map(a => a.required ? `<${a.name}>` : `[${a.name}]`);
+  return [`/${command.name}`, ...args].join(' ');
+}
+
+export interface CommandSuggestion {
+  label: string;
+  description: string;
+  // Input text after accepting the suggestion
+  value: string;
+}
+
+// Autocomplete for the chat input: command names first, then path arguments
+export function getCommandSuggestions(
+  input: string,
+  commands: SlashCommand[],
+  files: string[],
+  limit: number = 8
+): CommandSuggestion[] {
+  if (!input.startsWith('/')) return [];
+
+  const nameMatch = input.match(/^\/([a-z0-9-]*)$/);
+  if (nameMatch) {
+    return commands
+      .filter(c => c.name.startsWith(nameMatch[1]))
+      .slice(0, limit)
+      .map(c => ({
+        label: formatUsage(c),
+        description: c.description,
+        value: `/${c.name} `,
+      }));
+  }
+
+  // Completing an argument: find which one the cursor is in
+  const argMatch = input.match(/^\/([a-z][a-z0-9-]*)\s+([\s\S]*)$/);
+  const command = argMatch && commands.find(c => c.name === argMatch[1]);
+  if (!argMatch || !command?.args?.length) return [];
+
+  const parts = argMatch[2].split(/\s+/);
+  const argIndex = Math.min(parts.length - 1, command.args.length - 1);
+  const arg = command.args[argIndex];
+  if (arg.type !== 'path' || argIndex !== parts.length - 1) return [];
+
+  const partial = parts[parts.length - 1].toLowerCase();
+  const prefix = input.slice(0, input.length - parts[parts.length - 1].length);
+  const matches = [
+    ...files.filter(f => f.toLowerCase().startsWith(partial)),
+    ...files.filter(f => !f.toLowerCase().startsWith(partial) && f.toLowerCase().includes(partial)),
+  ];
+
+  return matches.slice(0, limit).map(f => ({
+    label: f,
+    description: arg.description,
+    value: `${prefix}${f} `,
+  }));
+}
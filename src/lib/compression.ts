@@ -0,0 +1,143 @@
+import { createHash } from 'crypto';
+import { ClaudeClient, MODELS, UsageListener, estimateTokens } from '@/lib/claude';
+import { ChatMessage, ConversationSummary } from '@/types';
+
+// History above this size (in tokens) gets its older turns summarized
+export const COMPRESSION_THRESHOLD_TOKENS = 12_000;
+
+// Most recent messages always sent verbatim
+const KEEP_RECENT_MESSAGES = 6;
+
+// Summaries kept in memory between requests
+const MAX_CACHED_SUMMARIES = 200;
+const summaryCache = new Map<string, ConversationSummary>();
+
+const SUMMARY_SYSTEM_PROMPT = `You compress the history of a coding session between a user and an AI coding assistant.
+Write a compact running summary that lets the assistant continue the work without the original messages.
+
+Use these sections and keep every item to one line:
+## Decisions
+## Files touched
+(path and what changed)
+## Open TODOs
+## Other context
+(user preferences, constraints, errors seen)
+
+Drop small talk and anything that no longer matters. Never invent details.`;
+
+// Plain text of a message, including tool calls and results
+function messageText(message: ChatMessage): string {
+  if (typeof message.content === 'string') return message.content;
+  return message.content.map(block => {
+    switch (block.type) {
+      case 'text':
+        return block.text;
+      case 'tool_use':
+        return `[tool ${block.name} ${JSON.stringify(block.input)}]`;
+      case 'tool_result':
+        return `[tool result${block.is_error ? ' (error)' : ''}: ${block.content}]`;
+    }
+  }).join('\n');
+}
+
+export function estimateHistoryTokens(messages: ChatMessage[]): number {
+  return messages.reduce((sum, m) => sum + estimateTokens(messageText(m)), 0);
+}
+
+function hashMessages(messages: ChatMessage[]): string {
+  return createHash('sha256')
+    .update(JSON.stringify(messages.map(m => [m.role, messageText(m)])))
+    .digest('hex');
+}
+
+function cacheSummary(summary: ConversationSummary): void {
+  summaryCache.delete(summary.key);
+  summaryCache.set(summary.key, summary);
+  // Maps iterate in insertion order, so the first key is the least recently used
+  if (summaryCache.size > MAX_CACHED_SUMMARIES) {
+    summaryCache.delete(summaryCache.keys().next().value!);
+  }
+}
+
+// Find an existing summary of exactly these messages
+function findSummary(
+  messages: ChatMessage[],
+  previous?: ConversationSummary
+): ConversationSummary | undefined {
+  const key = hashMessages(messages);
+  const cached = summaryCache.get(key);
+  if (cached) {
+    cacheSummary(cached);
+    return cached;
+  }
+  if (previous?.key === key && previous.coveredMessages === messages.length) {
+    cacheSummary(previous);
+    return previous;
+  }
+  return undefined;
+}
+
+// Replace the older part of a long history with a running summary.
+// `previous` is the summary the client got back last time; it is reused when it
+// still covers a prefix of the history, so only the new turns get summarized.
+export async function compressHistory(
+  apiKey: string,
+  history: ChatMessage[],
+  previous?: ConversationSummary,
+  onUsage?: UsageListener
+): Promise<{ messages: ChatMessage[]; summary?: ConversationSummary; cost: number }> {
+  if (estimateHistoryTokens(history) <= COMPRESSION_THRESHOLD_TOKENS) {
+    return { messages: history, cost: 0 };
+  }
+
+  // The verbatim part has to start with a user message
+  let split = history.length - KEEP_RECENT_MESSAGES;
+  while (split > 0 && history[split].role !== 'user') split--;
+  if (split <= 0) {
+    return { messages: history, cost: 0 };
+  }
+
+  const older = history.slice(0, split);
+  const recent = history.slice(split);
+
+  const existing = findSummary(older, previous);
+  if (existing) {
+    return { messages: recent, summary: existing, cost: 0 };
+  }
+
+  // Extend an earlier summary of a prefix instead of starting over
+  let base: ConversationSummary | undefined;
+  if (previous && previous.coveredMessages < split) {
+    base = findSummary(older.slice(0, previous.coveredMessages), previous);
+  }
+
+  const transcript = older
+    .slice(base?.coveredMessages ?? 0)
+    .map(m => `${m.role.toUpperCase()}: ${messageText(m)}`)
+    .join('\n\n');
+
+  const prompt = base
+    ? `Current summary:\n${base.text}\n\nNew messages to fold into the summary:\n${transcript}`
+    : `Conversation:\n${transcript}`;
+
+  const summarizer = new ClaudeClient(apiKey, MODELS.haiku);
+  if (onUsage) {
+    summarizer.setUsageListener(onUsage);
+  }
+  const result = await summarizer.complete(prompt, SUMMARY_SYSTEM_PROMPT);
+
+  const summary: ConversationSummary = {
+    text: result.content.trim(),
+    coveredMessages: split,
+    key: hashMessages(older),
+    tokensSaved: Math.max(0, estimateHistoryTokens(older) - estimateTokens(result.content)),
+  };
+  cacheSummary(summary);
+
+  return { messages: recent, summary, cost: result.cost };
+}
+
+// Section appended to the system prompt when history was compressed
+export function formatSummaryForPrompt(summary: ConversationSummary): string {
+  return `\n\n## Summary of earlier conversation\n${summary.text}`;
+}
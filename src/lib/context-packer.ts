@@ -0,0 +1,221 @@
+import { estimateTokens, generateCodeContext } from '@/lib/claude';
+import { extractSymbols, tokenize } from '@/lib/code-index';
+import { ContextManifest, ContextManifestEntry, LoadedFile } from '@/types';
+
+export const DEFAULT_CONTEXT_BUDGET = 40_000;
+
+// Most of the budget the file tree may take
+const TREE_SHARE = 0.2;
+// Kept back from full files and excerpts so lower-ranked files can still get an outline
+const OUTLINE_RESERVE = 0.1;
+const MIN_EXCERPT_TOKENS = 300;
+const MAX_EXCERPT_TOKENS = 4_000;
+// Lines kept around each match in an excerpt, and from the top of the file
+const EXCERPT_CONTEXT_LINES = 8;
+const EXCERPT_HEAD_LINES = 10;
+
+// Relevance points per signal
+const SCORE_MENTIONED = 100;
+const SCORE_RECENT_EDIT = 40;
+const SCORE_DEPTH = [30, 15, 5];
+
+export interface PackOptions {
+  fileTree: string;
+  files: LoadedFile[];
+  // Tokens for the tree and all files together
+  budget: number;
+  message: string;
+  // Paths from the code index, best first
+  searchHits?: string[];
+  // Paths named outside the message text (command arguments, stack frames)
+  explicit?: string[];
+  // Paths changed in recent turns
+  recentEdits?: string[];
+}
+
+export interface RankedFile {
+  file: LoadedFile;
+  score: number;
+  reasons: string[];
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Order candidate files by how likely they matter for the message
+export function rankFiles(options: PackOptions): RankedFile[] {
+  const message = options.message.toLowerCase();
+  const searchHits = options.searchHits || [];
+
+  return options.files
+    .map(file => {
+      const reasons: string[] = [];
+      let score = 0;
+
+      const path = file.path.toLowerCase();
+      const basename = path.split('/').pop()!;
+      const mentioned = options.explicit?.includes(file.path) ||
+        message.includes(path) ||
+        // A file name with its extension, e.g. "checkout.ts"
+        (basename.includes('.') && new RegExp(`(^|[^\\w./-])${escapeRegExp(basename)}($|[^\\w-])`).test(message));
+      if (mentioned) {
+        score += SCORE_MENTIONED;
+        reasons.push('mentioned');
+      }
+
+      const hit = searchHits.indexOf(file.path);
+      if (hit !== -1) {
+        score += Math.max(10, 50 - hit * 5);
+        reasons.push(`search #${hit + 1}`);
+      }
+
+      if (options.recentEdits?.includes(file.path)) {
+        score += SCORE_RECENT_EDIT;
+        reasons.push('recently edited');
+      }
+
+      score += SCORE_DEPTH[file.depth] ?? 0;
+      if (file.depth > 0) {
+        reasons.push(`import depth ${file.depth}`);
+      }
+
+      return { file, score, reasons };
+    })
+    // Smaller files first among equals: more of them fit
+    .sort((a, b) => b.score - a.score || a.file.content.length - b.file.content.length);
+}
+
+// Fit the tree into its share: hide deeper levels first, then cut lines
+function fitTree(tree: string, maxTokens: number): { text: string; truncated: boolean } {
+  if (estimateTokens(tree) <= maxTokens) {
+    return { text: tree, truncated: false };
+  }
+
+  const lines = tree.split('\n').filter(Boolean);
+  const depthOf = (line: string) => (line.length - line.trimStart().length) / 2;
+  const maxDepth = Math.max(...lines.map(depthOf));
+
+  for (let depth = maxDepth - 1; depth >= 0; depth--) {
+    const shallow = lines.filter(l => depthOf(l) <= depth);
+    const text = `${shallow.join('\n')}\n… deeper entries hidden (use search_files to find files)`;
+    if (estimateTokens(text) <= maxTokens) {
+      return { text, truncated: true };
+    }
+  }
+
+  const kept: string[] = [];
+  let tokens = 0;
+  for (const line of lines) {
+    tokens += estimateTokens(line + '\n');
+    if (tokens > maxTokens) break;
+    kept.push(line);
+  }
+  return {
+    text: `${kept.join('\n')}\n… ${lines.length - kept.length} more entries (use search_files to find files)`,
+    truncated: true,
+  };
+}
+
+// Declarations with their line numbers, or null if none were found
+function buildOutline(content: string): string | null {
+  const lines = content.split('\n');
+  const symbols = extractSymbols(lines);
+  if (symbols.length === 0) return null;
+  return symbols.map(s => `${s.line}: ${lines[s.line - 1].trim()}`).join('\n');
+}
+
+// The top of the file plus the regions mentioning words from the message
+function buildExcerpt(content: string, terms: string[], maxTokens: number): string {
+  const lines = content.split('\n');
+  const keep = new Set<number>();
+  for (let i = 0; i < Math.min(EXCERPT_HEAD_LINES, lines.length); i++) keep.add(i);
+
+  lines.forEach((line, i) => {
+    const lower = line.toLowerCase();
+    if (terms.some(t => lower.includes(t))) {
+      const end = Math.min(lines.length - 1, i + EXCERPT_CONTEXT_LINES);
+      for (let j = Math.max(0, i - EXCERPT_CONTEXT_LINES); j <= end; j++) keep.add(j);
+    }
+  });
+
+  // Nothing matched: as much of the top of the file as fits
+  if (keep.size <= EXCERPT_HEAD_LINES) {
+    lines.forEach((_, i) => keep.add(i));
+  }
+
+  const out: string[] = [];
+  let tokens = 0;
+  let previous = -1;
+  for (const i of [...keep].sort((a, b) => a - b)) {
+    const gap = i > previous + 1 ? `⋮ (lines ${previous + 2}–${i} omitted)` : null;
+    const cost = estimateTokens(lines[i] + '\n') + (gap ? estimateTokens(gap) : 0);
+    if (tokens + cost > maxTokens) break;
+    if (gap) out.push(gap);
+    out.push(lines[i]);
+    tokens += cost;
+    previous = i;
+  }
+  if (previous < lines.length - 1) {
+    out.push(`⋮ (lines ${previous + 2}–${lines.length} omitted)`);
+  }
+  return out.join('\n');
+}
+
+// Build the code context within a token budget. The highest-ranked files go in
+// whole; the rest are cut to excerpts or outlines, or left out and listed.
+export function packContext(options: PackOptions): { context: string; manifest: ContextManifest } {
+  const { budget } = options;
+  const tree = fitTree(options.fileTree, Math.floor(budget * TREE_SHARE));
+  const treeTokens = estimateTokens(tree.text);
+  const fullLimit = budget * (1 - OUTLINE_RESERVE);
+  const terms = [...new Set(tokenize(options.message))].filter(t => t.length >= 4);
+
+  let used = treeTokens;
+  const included: Array<{ path: string; content: string; note?: string }> = [];
+  const omitted: string[] = [];
+  const entries: ContextManifestEntry[] = [];
+
+  for (const { file, reasons } of rankFiles(options)) {
+    const fullTokens = estimateTokens(file.content);
+    const include = (mode: ContextManifestEntry['mode'], content: string, note?: string) => {
+      const tokens = estimateTokens(content);
+      included.push({ path: file.path, content, note });
+      entries.push({ path: file.path, mode, tokens, fullTokens, reasons });
+      used += tokens;
+    };
+
+    if (used + fullTokens <= fullLimit) {
+      include('full', file.content);
+      continue;
+    }
+
+    // Files the request is clearly about get an excerpt rather than an outline
+    const central = file.depth === 0 || reasons.some(r => r === 'mentioned' || r.startsWith('search'));
+    const excerptBudget = Math.min(fullLimit - used, MAX_EXCERPT_TOKENS);
+    if (central && excerptBudget >= MIN_EXCERPT_TOKENS) {
+      include('excerpt', buildExcerpt(file.content, terms, excerptBudget), 'excerpt; use read_file for the full file');
+      continue;
+    }
+
+    const outline = buildOutline(file.content);
+    if (outline && used + estimateTokens(outline) <= budget) {
+      include('outline', outline, 'outline of declarations with line numbers; use read_file for the full file');
+      continue;
+    }
+
+    omitted.push(file.path);
+    entries.push({ path: file.path, mode: 'omitted', tokens: 0, fullTokens, reasons });
+  }
+
+  return {
+    context: generateCodeContext(tree.text, included, omitted),
+    manifest: {
+      budget,
+      used,
+      treeTokens,
+      treeTruncated: tree.truncated,
+      files: entries,
+    },
+  };
+}
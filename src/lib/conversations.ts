@@ -0,0 +1,124 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { getDataDir } from '@/lib/storage';
+import { Conversation, ConversationInfo } from '@/types';
+
+const CONVERSATIONS_DIR = 'conversations';
+const MAX_TITLE_LENGTH = 60;
+// Ids become file names, so nothing but word characters and dashes
+const CONVERSATION_ID = /^[\w-]{1,64}$/;
+
+// One JSON file per conversation. The list shown in the sidebar is kept in
+// memory, read from the files on first use.
+let infos: Map<string, ConversationInfo> | null = null;
+let loading: Promise<Map<string, ConversationInfo>> | null = null;
+let writeQueue: Promise<void> = Promise.resolve();
+
+function conversationsDir(): string {
+  return path.join(getDataDir(), CONVERSATIONS_DIR);
+}
+
+export function isConversationId(id: unknown): id is string {
+  return typeof id === 'string' && CONVERSATION_ID.test(id);
+}
+
+function conversationPath(id: string): string {
+  if (!isConversationId(id)) {
+    throw new Error(`Invalid conversation id: ${id}`);
+  }
+  return path.join(conversationsDir(), `${id}.json`);
+}
+
+function toInfo(conversation: Conversation): ConversationInfo {
+  const { messages, summary, deployTarget, branches, ...info } = conversation;
+  return { ...info, messageCount: messages.length };
+}
+
+async function loadInfos(): Promise<Map<string, ConversationInfo>> {
+  if (infos) return infos;
+  if (!loading) {
+    loading = fs.readdir(conversationsDir())
+      .catch((error: any) => {
+        if (error.code === 'ENOENT') return [] as string[];
+        throw error;
+      })
+      .then(async names => {
+        const loaded = new Map<string, ConversationInfo>();
+        for (const name of names.filter(n => n.endsWith('.json'))) {
+          try {
+            const conversation: Conversation = JSON.parse(
+              await fs.readFile(path.join(conversationsDir(), name), 'utf-8')
+            );
+            loaded.set(conversation.id, toInfo(conversation));
+          } catch (error) {
+            console.error(`Skipping unreadable conversation ${name}:`, error);
+          }
+        }
+        infos = loaded;
+        return loaded;
+      });
+    // A failed read is retried by the next call instead of failing every later one
+    loading.catch(() => { loading = null; });
+  }
+  return loading;
+}
+
+// Conversations for a repository, most recently updated first
+export async function listConversations(repo: string): Promise<ConversationInfo[]> {
+  const all = await loadInfos();
+  return [...all.values()]
+    .filter(c => c.repo === repo)
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+export async function getConversation(id: string): Promise<Conversation | null> {
+  try {
+    return JSON.parse(await fs.readFile(conversationPath(id), 'utf-8'));
+  } catch (error: any) {
+    if (error.code === 'ENOENT') return null;
+    throw error;
+  }
+}
+
+// Create or replace a conversation. Title and cost are derived from the messages.
+export async function saveConversation(
+  input: Omit<Conversation, 'title' | 'cost' | 'createdAt' | 'updatedAt'>
+): Promise<ConversationInfo> {
+  const all = await loadInfos();
+  const file = conversationPath(input.id);
+  const firstMessage = input.messages.find(m => m.role === 'user')?.content.trim() || 'New conversation';
+  const now = new Date().toISOString();
+
+  const conversation: Conversation = {
+    ...input,
+    title: firstMessage.length > MAX_TITLE_LENGTH
+      ? `${firstMessage.slice(0, MAX_TITLE_LENGTH - 1).trimEnd()}…`
+      : firstMessage,
+    cost: input.messages.reduce((sum, m) => sum + (m.cost || 0), 0),
+    createdAt: all.get(input.id)?.createdAt || now,
+    updatedAt: now,
+  };
+  const info = toInfo(conversation);
+  all.set(conversation.id, info);
+
+  // Serialize writes; each goes to a temp file first so a crash never leaves half a file
+  const write = writeQueue.then(async () => {
+    await fs.mkdir(conversationsDir(), { recursive: true });
+    await fs.writeFile(`${file}.tmp`, JSON.stringify(conversation));
+    await fs.rename(`${file}.tmp`, file);
+  });
+  // A failed write is reported to its caller but does not block later ones
+  writeQueue = write.catch(() => {});
+  await write;
+  return info;
+}
+
+export async function deleteConversation(id: string): Promise<void> {
+  const all = await loadInfos();
+  const file = conversationPath(id);
+  all.delete(id);
+
+  const write = writeQueue.then(() => fs.rm(file, { force: true }));
+  writeQueue = write.catch(() => {});
+  await write;
+}
@@ -0,0 +1,165 @@
+import { DeployStatus } from '@/types';
+
+const RAILWAY_API_URL = 'https://backboard.railway.com/graphql/v2';
+
+// Log lines kept per status (the tail is what matters)
+const MAX_LOG_LINES = 200;
+
+export interface DeployTarget {
+  branch: string;
+  // Only report a deployment built from this commit
+  commitSha?: string;
+}
+
+// A hosting platform that builds a preview deployment for each branch
+export interface DeployProvider {
+  readonly name: string;
+  getStatus(target: DeployTarget): Promise<DeployStatus>;
+}
+
+export interface DeployConfig {
+  railwayToken?: string;
+  railwayProjectId?: string;
+}
+
+export function isDeployFinished(status: DeployStatus['status']): boolean {
+  return status === 'success' || status === 'failed';
+}
+
+function tail(lines: string[]): string[] {
+  return lines.slice(-MAX_LOG_LINES);
+}
+
+// Railway deployment statuses mapped to ours
+const RAILWAY_STATUS: Record<string, DeployStatus['status']> = {
+  QUEUED: 'building',
+  WAITING: 'building',
+  INITIALIZING: 'building',
+  BUILDING: 'building',
+  DEPLOYING: 'deploying',
+  SUCCESS: 'success',
+  SLEEPING: 'success',
+  FAILED: 'failed',
+  CRASHED: 'failed',
+  REMOVED: 'idle',
+  REMOVING: 'idle',
+  SKIPPED: 'idle',
+};
+
+export class RailwayProvider implements DeployProvider {
+  readonly name = 'railway';
+
+  constructor(private token: string, private projectId: string) {}
+
+  private async query(query: string, variables: Record<string, any>): Promise<any> {
+    const response = await fetch(RAILWAY_API_URL, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${this.token}`,
+      },
+      body: JSON.stringify({ query, variables }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Railway API returned ${response.status}`);
+    }
+
+    const json = await response.json();
+    if (json.errors?.length) {
+      throw new Error(`Railway API error: ${json.errors[0].message}`);
+    }
+    return json.data;
+  }
+
+  // Latest deployment of a branch (and commit, if given), with its logs
+  async getStatus({ branch, commitSha }: DeployTarget): Promise<DeployStatus> {
+    const data = await this.query(
+      `query Deployments($projectId: String!) {
+        deployments(first: 30, input: { projectId: $projectId }) {
+          edges { node { id status url staticUrl createdAt meta } }
+        }
+      }`,
+      { projectId: this.projectId }
+    );
+
+    // Newest first; Railway records the source branch and commit in meta
+    const deployment = (data.deployments?.edges || [])
+      .map((edge: any) => edge.node)
+      .find((node: any) =>
+        node.meta?.branch === branch &&
+        (!commitSha || node.meta?.commitHash === commitSha)
+      );
+
+    if (!deployment) {
+      return { status: 'idle', provider: this.name, branch, commitSha };
+    }
+
+    const logs = await this.getLogs(deployment.id).catch(() => []);
+    const status = RAILWAY_STATUS[deployment.status] || 'building';
+    const host = deployment.staticUrl || deployment.url;
+
+    return {
+      status,
+      provider: this.name,
+      deploymentId: deployment.id,
+      branch,
+      commitSha: deployment.meta?.commitHash || commitSha,
+      url: host ? (host.startsWith('http') ? host : `https://${host}`) : undefined,
+      error: status === 'failed'
+        ? `Deployment ${deployment.status.toLowerCase()}`
+        : undefined,
+      logs,
+      updatedAt: new Date().toISOString(),
+    };
+  }
+
+  // Build logs followed by runtime logs
+  private async getLogs(deploymentId: string): Promise<string[]> {
+    const data = await this.query(
+      `query Logs($deploymentId: String!, $limit: Int) {
+        buildLogs(deploymentId: $deploymentId, limit: $limit) { message }
+        deploymentLogs(deploymentId: $deploymentId, limit: $limit) { message }
+      }`,
+      { deploymentId, limit: MAX_LOG_LINES }
+    );
+
+    return tail([
+      ...(data.buildLogs || []).map((l: any) => l.message),
+      ...(data.deploymentLogs || []).map((l: any) => l.message),
+    ]);
+  }
+}
+
+// Talks to a local mock server (scripts/mock-deploy-server.mjs) that
+// simulates preview deployments, for development without a Railway project
+export class MockDeployProvider implements DeployProvider {
+  readonly name = 'mock';
+
+  constructor(private baseUrl: string) {}
+
+  async getStatus({ branch, commitSha }: DeployTarget): Promise<DeployStatus> {
+    const params = new URLSearchParams({ branch });
+    if (commitSha) params.set('commit', commitSha);
+
+    const response = await fetch(`${this.baseUrl.replace(/\/$/, '')}/deployments?${params}`);
+    if (!response.ok) {
+      throw new Error(`Mock deploy server returned ${response.status}`);
+    }
+
+    const status: DeployStatus = await response.json();
+    return { ...status, provider: this.name, logs: tail(status.logs || []) };
+  }
+}
+
+// Pick a provider: Railway when the session has credentials, otherwise the
+// mock server if DEPLOY_MOCK_URL is set. Returns null when neither is available.
+export function createDeployProvider(config: DeployConfig): DeployProvider | null {
+  if (config.railwayToken && config.railwayProjectId) {
+    return new RailwayProvider(config.railwayToken, config.railwayProjectId);
+  }
+  if (process.env.DEPLOY_MOCK_URL) {
+    return new MockDeployProvider(process.env.DEPLOY_MOCK_URL);
+  }
+  return null;
+}
@@ -0,0 +1,283 @@
+import { DiffHunk, DiffLine, FileChange } from '@/types';
+
+// Lines of unchanged context shown around each hunk
+const DEFAULT_CONTEXT = 3;
+
+// Edits Myers' algorithm searches before giving up; the trace it keeps grows with
+// the square of this, so beyond it the changed region becomes one remove-and-add
+const MAX_EDIT_DISTANCE = 2000;
+
+// Split text into lines, treating a missing file as empty. A trailing newline
+// ends the last line rather than starting an empty one; when it is missing, the
+// last line keeps a '\n' marker (which no real line can contain) so that a
+// newline-only change still shows up as a changed line.
+function toLines(text: string | null): string[] {
+  if (!text) return [];
+  const lines = text.split('\n');
+  if (lines[lines.length - 1] === '') {
+    lines.pop();
+  } else {
+    lines[lines.length - 1] += '\n';
+  }
+  return lines;
+}
+
+// Strip the missing-newline marker from a line produced by toLines
+function toDiffLine(line: DiffLine): DiffLine {
+  if (!line.text.endsWith('\n')) return line;
+  return { ...line, text: line.text.slice(0, -1), noNewline: true };
+}
+
+// Line-level diff of two texts (Myers' algorithm, after trimming common prefix/suffix)
+export function diffLines(oldText: string | null, newText: string | null): DiffLine[] {
+  const a = toLines(oldText);
+  const b = toLines(newText);
+
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) suffix++;
+
+  const lines: DiffLine[] = [];
+  for (let i = 0; i < prefix; i++) {
+    lines.push({ type: 'context', text: a[i], oldLine: i + 1, newLine: i + 1 });
+  }
+
+  const middle = myers(a.slice(prefix, a.length - suffix), b.slice(prefix, b.length - suffix));
+  for (const line of middle) {
+    lines.push({
+      ...line,
+      oldLine: line.oldLine !== undefined ? line.oldLine + prefix : undefined,
+      newLine: line.newLine !== undefined ? line.newLine + prefix : undefined,
+    });
+  }
+
+  for (let i = suffix; i > 0; i--) {
+    lines.push({
+      type: 'context',
+      text: a[a.length - i],
+      oldLine: a.length - i + 1,
+      newLine: b.length - i + 1,
+    });
+  }
+
+  return lines.map(toDiffLine);
+}
+
+// Every line of a removed, then every line of b added
+function replaceAll(a: string[], b: string[]): DiffLine[] {
+  return [
+    ...a.map((text, i): DiffLine => ({ type: 'remove', text, oldLine: i + 1 })),
+    ...b.map((text, i): DiffLine => ({ type: 'add', text, newLine: i + 1 })),
+  ];
+}
+
+// Shortest edit script between two line arrays, with 1-based line numbers
+function myers(a: string[], b: string[]): DiffLine[] {
+  const n = a.length;
+  const m = b.length;
+  if (n === 0 || m === 0) return replaceAll(a, b);
+
+  const max = n + m;
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  // Diagonals -d..d of v before step d, which is all the walk back reads
+  const trace: Int32Array[] = [];
+
+  let found = false;
+  for (let d = 0; d <= max && !found; d++) {
+    if (d > MAX_EDIT_DISTANCE) return replaceAll(a, b);
+    trace.push(v.slice(offset - d, offset + d + 1));
+    for (let k = -d; k <= d; k += 2) {
+      let x = (k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1]))
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) {
+        found = true;
+        break;
+      }
+    }
+  }
+
+  // Walk the trace backwards to recover the edit script
+  const result: DiffLine[] = [];
+  let x = n;
+  let y = m;
+  for (let d = trace.length - 1; d >= 0 && (x > 0 || y > 0); d--) {
+    const vd = trace[d];
+    const k = x - y;
+    const prevK = (k === -d || (k !== d && vd[d + k - 1] < vd[d + k + 1])) ? k + 1 : k - 1;
+    const prevX = d === 0 ? 0 : vd[d + prevK];
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      x--;
+      y--;
+      result.push({ type: 'context', text: a[x], oldLine: x + 1, newLine: y + 1 });
+    }
+    if (d > 0) {
+      if (x === prevX) {
+        y--;
+        result.push({ type: 'add', text: b[y], newLine: y + 1 });
+      } else {
+        x--;
+        result.push({ type: 'remove', text: a[x], oldLine: x + 1 });
+      }
+    }
+  }
+
+  return result.reverse();
+}
+
+// Group a diff into hunks of changes with surrounding context
+export function computeHunks(
+  oldText: string | null,
+  newText: string | null,
+  context: number = DEFAULT_CONTEXT
+): DiffHunk[] {
+  const lines = diffLines(oldText, newText);
+  const hunks: DiffHunk[] = [];
+
+  let i = 0;
+  while (i < lines.length) {
+    if (lines[i].type === 'context') {
+      i++;
+      continue;
+    }
+
+    // Extend the hunk while changes are within 2 * context lines of each other
+    const start = Math.max(0, i - context);
+    let end = i;
+    let lastChange = i;
+    while (end < lines.length) {
+      if (lines[end].type !== 'context') {
+        lastChange = end;
+      } else if (end - lastChange > context * 2) {
+        break;
+      }
+      end++;
+    }
+    end = Math.min(lines.length, lastChange + context + 1);
+
+    const hunkLines = lines.slice(start, end);
+    const firstOld = hunkLines.find(l => l.oldLine !== undefined)?.oldLine;
+    const firstNew = hunkLines.find(l => l.newLine !== undefined)?.newLine;
+    const oldLines = hunkLines.filter(l => l.type !== 'add').length;
+    const newLines = hunkLines.filter(l => l.type !== 'remove').length;
+
+    hunks.push({
+      oldStart: firstOld ?? precedingLine(lines, start, 'oldLine'),
+      oldLines,
+      newStart: firstNew ?? precedingLine(lines, start, 'newLine'),
+      newLines,
+      lines: hunkLines,
+    });
+    i = end;
+  }
+
+  return hunks;
+}
+
+// Line number before position `index` (used for hunks that are empty on one side)
+function precedingLine(lines: DiffLine[], index: number, key: 'oldLine' | 'newLine'): number {
+  for (let i = index - 1; i >= 0; i--) {
+    const n = lines[i][key];
+    if (n !== undefined) return n;
+  }
+  return 0;
+}
+
+// Rebuild a file keeping only the accepted hunks; rejected hunks keep the old lines
+export function applyHunks(
+  oldText: string | null,
+  newText: string | null,
+  hunks: DiffHunk[],
+  accepted: boolean[]
+): string {
+  const a = toLines(oldText);
+  const result: string[] = [];
+  let oldIndex = 0; // 0-based position in a
+
+  hunks.forEach((hunk, h) => {
+    // Copy unchanged lines up to the hunk
+    const hunkOldStart = hunk.lines.find(l => l.oldLine !== undefined)?.oldLine;
+    const copyUntil = hunkOldStart !== undefined ? hunkOldStart - 1 : hunk.oldStart;
+    while (oldIndex < copyUntil) {
+      result.push(a[oldIndex++]);
+    }
+
+    for (const line of hunk.lines) {
+      const text = line.noNewline ? `${line.text}\n` : line.text;
+      if (line.type === 'context') {
+        result.push(text);
+        oldIndex++;
+      } else if (line.type === 'remove') {
+        if (!accepted[h]) result.push(text);
+        oldIndex++;
+      } else if (accepted[h]) {
+        result.push(text);
+      }
+    }
+  });
+
+  while (oldIndex < a.length) {
+    result.push(a[oldIndex++]);
+  }
+
+  // Lines carrying the marker end without a newline; every other line gets one
+  return result.map(line => line.endsWith('\n') ? line.slice(0, -1) : `${line}\n`).join('');
+}
+
+// Render hunks in unified diff format (as produced by `git diff`)
+export function formatUnifiedDiff(
+  path: string,
+  oldText: string | null,
+  newText: string | null,
+  hunks: DiffHunk[] = computeHunks(oldText, newText)
+): string {
+  const header = [
+    oldText === null ? '--- /dev/null' : `--- a/${path}`,
+    newText === null ? '+++ /dev/null' : `+++ b/${path}`,
+  ];
+
+  const body = hunks.flatMap(hunk => [
+    `@@ -${formatRange(hunk.oldStart, hunk.oldLines)} +${formatRange(hunk.newStart, hunk.newLines)} @@`,
+    ...hunk.lines.flatMap(line => {
+      const prefix = line.type === 'add' ? '+' : line.type === 'remove' ? '-' : ' ';
+      return line.noNewline
+        ? [prefix + line.text, '\\ No newline at end of file']
+        : [prefix + line.text];
+    }),
+  ]);
+
+  return [...header, ...body].join('\n');
+}
+
+function formatRange(start: number, count: number): string {
+  return count === 1 ? `${start}` : `${start},${count}`;
+}
+
+// Describe a file change with its unified diff and line counts
+export function toFileChange(path: string, oldText: string | null, newText: string | null): FileChange {
+  const hunks = computeHunks(oldText, newText);
+  const lines = hunks.flatMap(h => h.lines);
+
+  return {
+    path,
+    action: oldText === null ? 'create' : newText === null ? 'delete' : 'edit',
+    diff: formatUnifiedDiff(path, oldText, newText, hunks),
+    additions: lines.filter(l => l.type === 'add').length,
+    deletions: lines.filter(l => l.type === 'remove').length,
+  };
+}
@@ -1,19 +1,18 @@
 import { Octokit } from 'octokit';
 import { RepoFile, RepoTree, Branch } from '@/types';
+import { RepoClient } from '@/lib/repo-client';
+import { CachedTree, TreeItem } from '@/lib/repo-cache';
 
-export class GitHubClient {
+// Repository access through the GitHub REST API
+export class GitHubClient extends RepoClient {
   private octokit: Octokit;
-  private owner: string;
-  private repo: string;
 
   constructor(token: string, owner: string, repo: string) {
+    super(owner, repo);
     this.octokit = new Octokit({ auth: token });
-    this.owner = owner;
-    this.repo = repo;
   }
 
-  // Get the SHA for a branch
-  async getBranchSHA(branch: string): Promise<string> {
+  protected async fetchBranchSHA(branch: string): Promise<string> {
     const { data } = await this.octokit.rest.repos.getBranch({
       owner: this.owner,
       repo: this.repo,
@@ -22,49 +21,28 @@ export class GitHubClient {
     return data.commit.sha;
   }
 
-  // Get repository file tree
-  async getFileTree(branch: string = 'main'): Promise<RepoTree[]> {
-    // First get the commit SHA for the branch
-    const sha = await this.getBranchSHA(branch);
-    
+  protected async fetchTree(commitSha: string): Promise<CachedTree> {
     const { data } = await this.octokit.rest.git.getTree({
       owner: this.owner,
       repo: this.repo,
-      tree_sha: sha,
+      tree_sha: commitSha,
       recursive: 'true',
     });
 
-    return this.buildTree(data.tree);
+    const items = data.tree
+      .filter(item => item.path && item.sha)
+      .map(item => ({
+        path: item.path!,
+        type: item.type as TreeItem['type'],
+        mode: item.mode || '100644',
+        sha: item.sha!,
+        size: item.size || 0,
+      }));
+    return { items, byPath: new Map(items.map(item => [item.path, item])), truncated: data.truncated };
   }
 
-  private buildTree(flatTree: any[]): RepoTree[] {
-    const tree: RepoTree[] = [];
-    const pathMap = new Map<string, RepoTree>();
-
-    // Sort by path to ensure parents are processed first
-    flatTree.sort((a, b) => a.path.localeCompare(b.path));
-
-    for (const item of flatTree) {
-      const node: RepoTree = {
-        path: item.path,
-        type: item.type === 'tree' ? 'dir' : 'file',
-        children: item.type === 'tree' ? [] : undefined,
-      };
-      pathMap.set(item.path, node);
-
-      const parentPath = item.path.split('/').slice(0, -1).join('/');
-      if (parentPath && pathMap.has(parentPath)) {
-        pathMap.get(parentPath)!.children!.push(node);
-      } else {
-        tree.push(node);
-      }
-    }
-
-    return tree;
-  }
-
-  // Get file content
-  async getFileContent(path: string, branch: string = 'main'): Promise<RepoFile> {
+  // Get file content through the contents API, bypassing the cache
+  protected async fetchFileContent(path: string, branch: string): Promise<RepoFile> {
     const { data } = await this.octokit.rest.repos.getContent({
       owner: this.owner,
       repo: this.repo,
@@ -80,92 +58,26 @@ export class GitHubClient {
     return { path, content, sha: data.sha };
   }
 
-  // Get multiple files
-  async getFiles(paths: string[], branch: string = 'main'): Promise<RepoFile[]> {
-    const files = await Promise.all(
-      paths.map(path => this.getFileContent(path, branch).catch(() => null))
-    );
-    return files.filter((f): f is RepoFile => f !== null);
-  }
-
-  // Parse imports from a TypeScript/JavaScript file
-  parseImports(content: string, currentPath: string): string[] {
-    const imports: string[] = [];
-    const importRegex = /import\s+.*\s+from\s+['"]([^'"]+)['"]/g;
-    const requireRegex = /require\s*\(['"]([^'"]+)['"]\)/g;
-
-    let match;
-    while ((match = importRegex.exec(content)) !== null) {
-      imports.push(this.resolveImportPath(match[1], currentPath));
-    }
-    while ((match = requireRegex.exec(content)) !== null) {
-      imports.push(this.resolveImportPath(match[1], currentPath));
-    }
+  protected async fetchBlob(sha: string): Promise<string> {
+    const { data } = await this.octokit.rest.git.getBlob({
+      owner: this.owner,
+      repo: this.repo,
+      file_sha: sha,
+    });
 
-    // Filter out node_modules imports
-    return imports.filter(i => i.startsWith('./') || i.startsWith('../') || i.startsWith('/'));
+    return Buffer.from(data.content, data.encoding === 'base64' ? 'base64' : 'utf-8').toString('utf-8');
   }
 
-  private resolveImportPath(importPath: string, currentPath: string): string {
-    if (importPath.startsWith('./') || importPath.startsWith('../')) {
-      const currentDir = currentPath.split('/').slice(0, -1).join('/');
-      const parts = [...currentDir.split('/'), ...importPath.split('/')];
-      const resolved: string[] = [];
-      
-      for (const part of parts) {
-        if (part === '..') resolved.pop();
-        else if (part !== '.' && part !== '') resolved.push(part);
-      }
-      
-      return resolved.join('/');
-    }
-    return importPath;
+  protected async fetchCommit(commitSha: string): Promise<void> {
+    await this.octokit.rest.git.getCommit({
+      owner: this.owner,
+      repo: this.repo,
+      commit_sha: commitSha,
+    });
   }
 
-  // Get files with their imports (hybrid loading)
-  async getFilesWithImports(
-    entryPaths: string[],
-    branch: string = 'main',
-    maxDepth: number = 2
-  ): Promise<RepoFile[]> {
-    const loaded = new Set<string>();
-    const files: RepoFile[] = [];
-    
-    const loadFile = async (path: string, depth: number) => {
-      // Normalize path and add extensions if needed
-      const possiblePaths = [
-        path,
-        `${path}.ts`,
-        `${path}.tsx`,
-        `${path}.js`,
-        `${path}.jsx`,
-        `${path}/index.ts`,
-        `${path}/index.tsx`,
-        `${path}/index.js`,
-      ];
-
-      for (const p of possiblePaths) {
-        if (loaded.has(p)) return;
-        
-        try {
-          const file = await this.getFileContent(p, branch);
-          loaded.add(p);
-          files.push(file);
-          
-          // Parse and follow imports if not at max depth
-          if (depth < maxDepth) {
-            const imports = this.parseImports(file.content, p);
-            await Promise.all(imports.map(imp => loadFile(imp, depth + 1)));
-          }
-          return;
-        } catch {
-          // File doesn't exist with this extension, try next
-        }
-      }
-    };
-
-    await Promise.all(entryPaths.map(p => loadFile(p, 0)));
-    return files;
+  async checkAccess(): Promise<void> {
+    await this.octokit.rest.repos.get({ owner: this.owner, repo: this.repo });
   }
 
   // Create a new branch
@@ -184,6 +96,7 @@ export class GitHubClient {
       ref: `refs/heads/${branchName}`,
       sha: refData.object.sha,
     });
+    this.setHead(branchName, refData.object.sha);
 
     return {
       name: branchName,
@@ -209,40 +122,122 @@ export class GitHubClient {
       branch,
       sha,
     });
+    // The new head is looked up again on the next read
+    this.heads.delete(branch);
   }
 
-  // Apply str_replace edit
-  async applyStrReplace(
-    path: string,
-    oldStr: string,
-    newStr: string,
-    branch: string
-  ): Promise<{ success: boolean; error?: string }> {
+  // Commit several file changes at once via the Git Data API (tree -> commit -> ref).
+  // A null content deletes the file. The ref update is compare-and-swap against
+  // parentSha: if the branch moved in the meantime, nothing is written.
+  async commitFiles(
+    branch: string,
+    files: Array<{ path: string; content: string | null; from?: string }>,
+    message: string,
+    parentSha: string
+  ): Promise<string> {
+    const { data: parent } = await this.octokit.rest.git.getCommit({
+      owner: this.owner,
+      repo: this.repo,
+      commit_sha: parentSha,
+    });
+
+    // Edited and moved files keep their mode, so scripts stay executable and symlinks stay links
+    const modes = await Promise.all(files.map(f => this.fileMode(parentSha, f.from ?? f.path)));
+    const { data: tree } = await this.octokit.rest.git.createTree({
+      owner: this.owner,
+      repo: this.repo,
+      base_tree: parent.tree.sha,
+      tree: files.map((f, i) => (
+        f.content === null
+          ? { path: f.path, mode: modes[i], type: 'blob' as const, sha: null }
+          : { path: f.path, mode: modes[i], type: 'blob' as const, content: f.content }
+      )),
+    });
+
+    const { data: commit } = await this.octokit.rest.git.createCommit({
+      owner: this.owner,
+      repo: this.repo,
+      message,
+      tree: tree.sha,
+      parents: [parentSha],
+    });
+
     try {
-      const file = await this.getFileContent(path, branch);
-      
-      if (!file.content.includes(oldStr)) {
-        return { 
-          success: false, 
-          error: `String not found in ${path}. Make sure the string is unique and exact.` 
-        };
+      // Without force, GitHub only accepts a fast-forward. The new commit's only
+      // parent is parentSha, so this fails if anyone else pushed to the branch.
+      await this.octokit.rest.git.updateRef({
+        owner: this.owner,
+        repo: this.repo,
+        ref: `heads/${branch}`,
+        sha: commit.sha,
+        force: false,
+      });
+    } catch (error: any) {
+      if (error.status === 422) {
+        throw new Error(
+          `Branch ${branch} was updated by someone else while Claude was editing. ` +
+          `Changes were not committed; please retry the request.`
+        );
       }
+      throw error;
+    }
 
-      const occurrences = file.content.split(oldStr).length - 1;
-      if (occurrences > 1) {
-        return { 
-          success: false, 
-          error: `String found ${occurrences} times in ${path}. It must be unique for safe replacement.` 
-        };
-      }
+    this.setHead(branch, commit.sha);
+    return commit.sha;
+  }
 
-      const newContent = file.content.replace(oldStr, newStr);
-      await this.updateFile(path, newContent, `Edit ${path}`, branch, file.sha);
-      
-      return { success: true };
-    } catch (error: any) {
-      return { success: false, error: error.message };
+  // Move a branch to a checkpoint commit. 'reset' points the branch at it, which
+  // is refused when the head is not one of knownShas (someone else's commits would
+  // be dropped). 'revert' keeps history and adds a commit restoring its files.
+  async restoreBranch(
+    branch: string,
+    targetSha: string,
+    mode: 'reset' | 'revert',
+    knownShas: string[] = []
+  ): Promise<string> {
+    const head = await this.getBranchSHA(branch);
+    if (head === targetSha) return head;
+
+    if (mode === 'reset') {
+      if (!knownShas.includes(head)) {
+        throw new Error(
+          `Branch ${branch} has commits that are not part of this conversation; ` +
+          `resetting it would discard them.`
+        );
+      }
+      await this.octokit.rest.git.updateRef({
+        owner: this.owner,
+        repo: this.repo,
+        ref: `heads/${branch}`,
+        sha: targetSha,
+        force: true,
+      });
+      this.setHead(branch, targetSha);
+      return targetSha;
     }
+
+    const [{ data: target }, { data: current }] = await Promise.all([
+      this.octokit.rest.git.getCommit({ owner: this.owner, repo: this.repo, commit_sha: targetSha }),
+      this.octokit.rest.git.getCommit({ owner: this.owner, repo: this.repo, commit_sha: head }),
+    ]);
+    if (target.tree.sha === current.tree.sha) return head;
+
+    const { data: commit } = await this.octokit.rest.git.createCommit({
+      owner: this.owner,
+      repo: this.repo,
+      message: `Restore files to ${targetSha.slice(0, 7)}`,
+      tree: target.tree.sha,
+      parents: [head],
+    });
+    await this.octokit.rest.git.updateRef({
+      owner: this.owner,
+      repo: this.repo,
+      ref: `heads/${branch}`,
+      sha: commit.sha,
+      force: false,
+    });
+    this.setHead(branch, commit.sha);
+    return commit.sha;
   }
 
   // Create a pull request
@@ -264,6 +259,16 @@ export class GitHubClient {
     return { number: data.number, url: data.html_url };
   }
 
+  // Replace a pull request's description
+  async updatePullRequest(prNumber: number, body: string): Promise<void> {
+    await this.octokit.rest.pulls.update({
+      owner: this.owner,
+      repo: this.repo,
+      pull_number: prNumber,
+      body,
+    });
+  }
+
   // Merge a pull request
   async mergePullRequest(prNumber: number): Promise<void> {
     await this.octokit.rest.pulls.merge({
@@ -271,6 +276,8 @@ export class GitHubClient {
       repo: this.repo,
       pull_number: prNumber,
     });
+    // The base branch moved
+    this.heads.clear();
   }
 
   // Delete a branch
@@ -280,6 +287,8 @@ export class GitHubClient {
       repo: this.repo,
       ref: `heads/${branch}`,
     });
+    this.heads.delete(branch);
+    this.cache.dropHead(branch);
   }
 
   // List branches
@@ -300,16 +309,6 @@ export class GitHubClient {
       isDefault: b.name === repoData.default_branch,
     }));
   }
-
-  // Search files by keyword
-  async searchFiles(query: string): Promise<string[]> {
-    const { data } = await this.octokit.rest.search.code({
-      q: `${query} repo:${this.owner}/${this.repo}`,
-      per_page: 20,
-    });
-
-    return data.items.map(item => item.path);
-  }
 }
 
 // Format file tree as string for Claude
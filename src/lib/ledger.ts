@@ -0,0 +1,156 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { UsageListener } from '@/lib/claude';
+import { getDataDir } from '@/lib/storage';
+import { CostTracker, LedgerEntry } from '@/types';
+
+const LEDGER_FILE = 'ledger.jsonl';
+
+// Entries are kept in memory and appended to a JSONL file, one line per API call
+let entries: LedgerEntry[] | null = null;
+let loading: Promise<LedgerEntry[]> | null = null;
+let writeQueue: Promise<void> = Promise.resolve();
+
+function ledgerPath(): string {
+  return path.join(getDataDir(), LEDGER_FILE);
+}
+
+async function loadEntries(): Promise<LedgerEntry[]> {
+  if (entries) return entries;
+  if (!loading) {
+    loading = fs.readFile(ledgerPath(), 'utf-8')
+      .then(text => text.split('\n').filter(Boolean).flatMap(parseLine))
+      .catch((error: any) => {
+        if (error.code === 'ENOENT') return [];
+        throw error;
+      })
+      .then(loaded => {
+        entries = loaded;
+        return loaded;
+      });
+    // A failed read is retried on the next call instead of failing every later one
+    loading.catch(() => { loading = null; });
+  }
+  return loading;
+}
+
+// One ledger line. A crash mid-append leaves a cut-off entry with the next one
+// appended to it; that next entry (each starts with its id) is kept, the rest skipped.
+function parseLine(line: string): LedgerEntry[] {
+  try {
+    return [JSON.parse(line) as LedgerEntry];
+  } catch {
+    const next = line.lastIndexOf('{"id":');
+    if (next > 0) return parseLine(line.slice(next));
+    console.error('Skipping unreadable ledger line:', line.slice(0, 200));
+    return [];
+  }
+}
+
+// Record one API call
+export async function recordUsage(entry: Omit<LedgerEntry, 'id' | 'timestamp'>): Promise<void> {
+  const all = await loadEntries();
+  const full: LedgerEntry = { id: randomUUID(), timestamp: new Date().toISOString(), ...entry };
+  all.push(full);
+
+  // Serialize appends so concurrent requests never interleave lines
+  const write = writeQueue.then(async () => {
+    await fs.mkdir(getDataDir(), { recursive: true });
+    await fs.appendFile(ledgerPath(), JSON.stringify(full) + '\n');
+  });
+  // A failed append is reported to its caller but does not block later ones
+  writeQueue = write.catch(() => {});
+  return write;
+}
+
+// Build a usage listener that records every call a ClaudeClient makes.
+// Call flush() before reading totals to wait for pending writes.
+export function createLedgerRecorder(
+  context: Pick<LedgerEntry, 'sessionId' | 'repo' | 'branch' | 'purpose'>
+): { listener: UsageListener; flush: () => Promise<void> } {
+  const pending: Promise<void>[] = [];
+  const listener: UsageListener = ({ model, usage, cost }) => {
+    pending.push(recordUsage({
+      ...context,
+      model,
+      tokens: {
+        input: usage.input_tokens || 0,
+        output: usage.output_tokens || 0,
+        cacheRead: usage.cache_read_input_tokens || 0,
+        cacheWrite: usage.cache_creation_input_tokens || 0,
+      },
+      cost,
+    }).catch(error => console.error('Failed to record usage:', error)));
+  };
+  return { listener, flush: async () => { await Promise.all(pending); } };
+}
+
+// Calendar day and month of a timestamp in the user's time zone
+function periodKeys(date: Date, timeZone?: string): { day: string; month: string } {
+  let day: string;
+  try {
+    day = date.toLocaleDateString('en-CA', { timeZone }); // YYYY-MM-DD
+  } catch {
+    day = date.toISOString().slice(0, 10);
+  }
+  return { day, month: day.slice(0, 7) };
+}
+
+// Derive session, daily and monthly totals from the ledger. Daily and monthly
+// totals cover every session and roll over at midnight in the given time zone.
+export async function getCostTracker(
+  sessionId: string | undefined,
+  timeZone?: string,
+  now: Date = new Date()
+): Promise<CostTracker> {
+  const all = await loadEntries();
+  const current = periodKeys(now, timeZone);
+
+  const tracker: CostTracker = {
+    sessionCost: 0,
+    dailyCost: 0,
+    monthlyCost: 0,
+    tokensUsed: { input: 0, output: 0, cacheRead: 0, cacheWrite: 0 },
+  };
+
+  for (const entry of all) {
+    const period = periodKeys(new Date(entry.timestamp), timeZone);
+    if (period.month === current.month) {
+      tracker.monthlyCost += entry.cost;
+      if (period.day === current.day) {
+        tracker.dailyCost += entry.cost;
+      }
+    }
+    if (sessionId && entry.sessionId === sessionId) {
+      tracker.sessionCost += entry.cost;
+      tracker.tokensUsed.input += entry.tokens.input;
+      tracker.tokensUsed.output += entry.tokens.output;
+      tracker.tokensUsed.cacheRead += entry.tokens.cacheRead;
+      tracker.tokensUsed.cacheWrite += entry.tokens.cacheWrite;
+    }
+  }
+
+  return tracker;
+}
+
+// Ledger entries, newest first, optionally filtered by repo or branch
+export async function listEntries(filter: { repo?: string; branch?: string; limit?: number } = {}): Promise<LedgerEntry[]> {
+  const all = await loadEntries();
+  return all
+    .filter(e => (!filter.repo || e.repo === filter.repo) && (!filter.branch || e.branch === filter.branch))
+    .slice(-(filter.limit ?? 100))
+    .reverse();
+}
+
+// Total spend per branch of a repository
+export async function getBranchTotals(repo: string): Promise<Record<string, number>> {
+  const all = await loadEntries();
+  const totals: Record<string, number> = {};
+  for (const entry of all) {
+    if (entry.repo === repo) {
+      totals[entry.branch] = (totals[entry.branch] || 0) + entry.cost;
+    }
+  }
+  return totals;
+}
@@ -0,0 +1,399 @@
+import { spawn } from 'child_process';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { Branch } from '@/types';
+import { COMMIT_SHA, RepoClient } from '@/lib/repo-client';
+import { CachedTree, TreeItem } from '@/lib/repo-cache';
+import { getDataDir } from '@/lib/storage';
+import { runCommand, CommandResult } from '@/lib/run-command';
+
+const REPOS_DIR = 'repos';
+// HOME for commands (npm and pip caches), next to the checkouts
+const COMMAND_HOME_DIR = '.home';
+
+// Owner and repository names become directories, so they must be plain names
+const REPO_NAME = /^(?!\.{1,2}$)[\w.-]+$/;
+
+// Where clones come from; {owner} and {repo} are filled in. A path or file:// URL
+// to bare repositories works without network access.
+const DEFAULT_REMOTE = 'https://github.com/{owner}/{repo}.git';
+
+// Identity for commits when git has none configured
+const DEFAULT_AUTHOR = { name: 'Claude Coder', email: 'claude-coder@localhost' };
+
+// Where run_command checks repositories out: RUN_COMMAND_DIR, outside the data
+// directory so commands never run next to the clones, ledger and conversations
+export function getRunDir(): string {
+  const dir = path.resolve(process.env.RUN_COMMAND_DIR || path.join(os.tmpdir(), 'claude-coder-runs'));
+  const relative = path.relative(path.resolve(getDataDir()), dir);
+  if (!relative.startsWith('..') && !path.isAbsolute(relative)) {
+    throw new Error('RUN_COMMAND_DIR must be outside the data directory');
+  }
+  return dir;
+}
+
+// Absolute path of a repository file inside a checkout. Refuses paths that leave it,
+// and paths through a symbolic link (a checked-out or generated link can point anywhere).
+async function pathInCheckout(root: string, file: string): Promise<string> {
+  const target = path.resolve(root, file);
+  const relative = path.relative(root, target);
+  if (!relative || relative.startsWith('..') || path.isAbsolute(relative)) {
+    throw new Error(`Path outside the repository: ${file}`);
+  }
+  let current = root;
+  for (const part of relative.split(path.sep)) {
+    current = path.join(current, part);
+    const stat = await fs.lstat(current).catch(() => null);
+    if (!stat) break;
+    if (stat.isSymbolicLink()) {
+      throw new Error(`Path goes through a symbolic link: ${file}`);
+    }
+  }
+  return target;
+}
+
+// SHAs from requests reach git as arguments and in refspecs; only full hex SHAs
+// are accepted, so none can be read as an option ("--receive-pack=...")
+function checkSha(sha: string): void {
+  if (!COMMIT_SHA.test(sha)) {
+    throw new Error(`Invalid commit SHA: ${sha}`);
+  }
+}
+
+export function getRemoteUrl(owner: string, repo: string): string {
+  return (process.env.GIT_REMOTE_URL || DEFAULT_REMOTE)
+    .replace(/\{owner\}/g, owner)
+    .replace(/\{repo\}/g, repo);
+}
+
+interface GitOptions {
+  input?: string;
+  env?: Record<string, string>;
+}
+
+// Run git and return its stdout; a non-zero exit rejects with git's message
+function git(cwd: string, args: string[], options: GitOptions = {}): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const child = spawn('git', args, {
+      cwd,
+      env: { ...process.env, ...options.env, GIT_TERMINAL_PROMPT: '0' },
+      stdio: [options.input === undefined ? 'ignore' : 'pipe', 'pipe', 'pipe'],
+    });
+    const stdout: Buffer[] = [];
+    const stderr: Buffer[] = [];
+    child.stdout!.on('data', (chunk: Buffer) => stdout.push(chunk));
+    child.stderr!.on('data', (chunk: Buffer) => stderr.push(chunk));
+    child.on('error', reject);
+    child.on('close', code => {
+      if (code === 0) {
+        resolve(Buffer.concat(stdout));
+      } else {
+        const message = Buffer.concat(stderr).toString('utf-8').trim();
+        reject(new Error(`git ${args[0]} failed: ${message || `exit code ${code}`}`));
+      }
+    });
+    if (options.input !== undefined) {
+      // git may exit before reading everything; its exit code reports why
+      child.stdin!.on('error', () => {});
+      child.stdin!.end(options.input);
+    }
+  });
+}
+
+async function gitText(cwd: string, args: string[], options?: GitOptions): Promise<string> {
+  return (await git(cwd, args, options)).toString('utf-8').trim();
+}
+
+// Operations on one clone that must not overlap (ref updates, checkouts), by key
+const queues = new Map<string, Promise<unknown>>();
+
+function serialize<T>(key: string, task: () => Promise<T>): Promise<T> {
+  const run = (queues.get(key) || Promise.resolve()).then(task);
+  queues.set(key, run.catch(() => {}));
+  return run;
+}
+
+// Repository access through a git clone on this server. Reads come from the
+// clone's object store after one fetch per client; commits are built with git
+// plumbing and pushed. run_command gets a separate checkout outside the data directory.
+export class LocalGitClient extends RepoClient {
+  private token: string;
+  private dir: string;
+  private fetched: Promise<void> | null = null;
+
+  constructor(token: string, owner: string, repo: string) {
+    super(owner, repo);
+    if (!REPO_NAME.test(owner) || !REPO_NAME.test(repo)) {
+      throw new Error(`Invalid repository name: ${owner}/${repo}`);
+    }
+    this.token = token;
+    this.dir = path.resolve(getDataDir(), REPOS_DIR, owner, repo);
+  }
+
+  // Token for HTTPS remotes, sent as a header so it is never written to the clone's config
+  private authArgs(): string[] {
+    const url = getRemoteUrl(this.owner, this.repo);
+    if (!this.token || !/^https?:\/\//.test(url)) return [];
+    const credentials = Buffer.from(`x-access-token:${this.token}`).toString('base64');
+    return ['-c', `http.extraHeader=Authorization: Basic ${credentials}`];
+  }
+
+  // Clone on first use, then fetch every branch once per client
+  private ready(): Promise<void> {
+    if (!this.fetched) {
+      this.fetched = serialize(`${this.dir}:refs`, async () => {
+        const url = getRemoteUrl(this.owner, this.repo);
+        const cloned = await fs.stat(path.join(this.dir, '.git')).then(() => true, () => false);
+        if (!cloned) {
+          await fs.mkdir(path.dirname(this.dir), { recursive: true });
+          await git(path.dirname(this.dir), [...this.authArgs(), 'clone', '--no-checkout', '--quiet', url, this.dir]);
+          const email = await gitText(this.dir, ['config', 'user.email']).catch(() => '');
+          if (!email) {
+            await git(this.dir, ['config', 'user.name', DEFAULT_AUTHOR.name]);
+            await git(this.dir, ['config', 'user.email', DEFAULT_AUTHOR.email]);
+          }
+          return;
+        }
+        await git(this.dir, ['remote', 'set-url', 'origin', url]);
+        await git(this.dir, [...this.authArgs(), 'fetch', '--prune', '--quiet', 'origin']);
+      });
+      this.fetched.catch(() => { this.fetched = null; });
+    }
+    return this.fetched;
+  }
+
+  private async run(args: string[], options?: GitOptions): Promise<string> {
+    await this.ready();
+    return gitText(this.dir, args, options);
+  }
+
+  // Push refspecs to origin; a rejected push means the branch moved on the remote
+  private async push(branch: string, refspecs: string[], flags: string[] = []): Promise<void> {
+    await this.ready();
+    try {
+      await serialize(`${this.dir}:refs`, () =>
+        git(this.dir, [...this.authArgs(), 'push', '--quiet', ...flags, '--end-of-options', 'origin', ...refspecs])
+      );
+    } catch (error: any) {
+      if (/rejected|non-fast-forward|fetch first|stale info/.test(error.message)) {
+        throw new Error(
+          `Branch ${branch} was updated by someone else while Claude was editing. ` +
+          `Changes were not committed; please retry the request.`
+        );
+      }
+      throw error;
+    }
+  }
+
+  protected async fetchBranchSHA(branch: string): Promise<string> {
+    try {
+      return await this.run(['rev-parse', '--verify', '--quiet', '--end-of-options', `refs/remotes/origin/${branch}^{commit}`]);
+    } catch {
+      throw new Error(`Branch not found: ${branch}`);
+    }
+  }
+
+  protected async fetchTree(commitSha: string): Promise<CachedTree> {
+    await this.ready();
+    // Entries are "<mode> <type> <sha> <size>\t<path>", NUL-separated
+    const output = (await git(this.dir, ['ls-tree', '-r', '-t', '-l', '-z', commitSha])).toString('utf-8');
+    const items: TreeItem[] = output
+      .split('\0')
+      .filter(Boolean)
+      .map(entry => {
+        const tab = entry.indexOf('\t');
+        const [mode, type, sha, size] = entry.slice(0, tab).split(/\s+/);
+        return { path: entry.slice(tab + 1), type: type as TreeItem['type'], mode, sha, size: Number(size) || 0 };
+      });
+    return { items, byPath: new Map(items.map(item => [item.path, item])), truncated: false };
+  }
+
+  protected async fetchBlob(sha: string): Promise<string> {
+    await this.ready();
+    return (await git(this.dir, ['cat-file', 'blob', sha])).toString('utf-8');
+  }
+
+  // The fetch in ready() is what checks the token; the commit must then be in the clone
+  protected async fetchCommit(commitSha: string): Promise<void> {
+    try {
+      await this.run(['cat-file', '-e', `${commitSha}^{commit}`]);
+    } catch {
+      throw new Error(`Commit not found: ${commitSha}`);
+    }
+  }
+
+  // Cloning or fetching with the token is the access check
+  async checkAccess(): Promise<void> {
+    await this.ready();
+  }
+
+  // Create a new branch on the remote at another branch's head
+  async createBranch(branchName: string, fromBranch: string = 'main'): Promise<Branch> {
+    const sha = await this.getBranchSHA(fromBranch);
+    const exists = await this.run(['rev-parse', '--verify', '--quiet', '--end-of-options', `refs/remotes/origin/${branchName}`])
+      .then(() => true, () => false);
+    if (exists) {
+      throw new Error(`Branch ${branchName} already exists`);
+    }
+
+    await this.push(branchName, [`${sha}:refs/heads/${branchName}`]);
+    this.setHead(branchName, sha);
+    return { name: branchName, sha, isDefault: false };
+  }
+
+  // Update or create a file
+  async updateFile(file: string, content: string, message: string, branch: string): Promise<void> {
+    await this.commitFiles(branch, [{ path: file, content }], message, await this.getBranchSHA(branch));
+  }
+
+  // Commit several file changes at once: a temporary index is filled from the
+  // parent's tree, the changes are applied to it, and the resulting commit is
+  // pushed without force, so nothing is written if the branch moved.
+  async commitFiles(
+    branch: string,
+    files: Array<{ path: string; content: string | null; from?: string }>,
+    message: string,
+    parentSha: string
+  ): Promise<string> {
+    checkSha(parentSha);
+    await this.ready();
+    const tmp = await fs.mkdtemp(path.join(os.tmpdir(), 'claude-coder-index-'));
+    const env = { GIT_INDEX_FILE: path.join(tmp, 'index') };
+
+    let commitSha: string;
+    try {
+      await git(this.dir, ['read-tree', '--end-of-options', parentSha], { env });
+      for (const file of files) {
+        if (file.content === null) {
+          await git(this.dir, ['update-index', '--force-remove', '--', file.path], { env });
+        } else {
+          const blob = await gitText(this.dir, ['hash-object', '-w', '--stdin'], { input: file.content });
+          // Edited and moved files keep their mode, so scripts stay executable and symlinks stay links
+          const mode = await this.fileMode(parentSha, file.from ?? file.path);
+          await git(this.dir, ['update-index', '--add', '--cacheinfo', `${mode},${blob},${file.path}`], { env });
+        }
+      }
+      const tree = await gitText(this.dir, ['write-tree'], { env });
+      commitSha = await gitText(this.dir, ['commit-tree', tree, '-p', parentSha], { input: message });
+    } finally {
+      await fs.rm(tmp, { recursive: true, force: true });
+    }
+
+    await this.push(branch, [`${commitSha}:refs/heads/${branch}`]);
+    this.setHead(branch, commitSha);
+    return commitSha;
+  }
+
+  // Move a branch to a checkpoint commit. 'reset' points the branch at it, which
+  // is refused when the head is not one of knownShas (someone else's commits would
+  // be dropped). 'revert' keeps history and adds a commit restoring its files.
+  async restoreBranch(
+    branch: string,
+    targetSha: string,
+    mode: 'reset' | 'revert',
+    knownShas: string[] = []
+  ): Promise<string> {
+    checkSha(targetSha);
+    knownShas.forEach(checkSha);
+    const head = await this.getBranchSHA(branch);
+    if (head === targetSha) return head;
+
+    if (mode === 'reset') {
+      if (!knownShas.includes(head)) {
+        throw new Error(
+          `Branch ${branch} has commits that are not part of this conversation; ` +
+          `resetting it would discard them.`
+        );
+      }
+      await this.push(branch, [`${targetSha}:refs/heads/${branch}`], [`--force-with-lease=refs/heads/${branch}:${head}`]);
+      this.setHead(branch, targetSha);
+      return targetSha;
+    }
+
+    const [targetTree, currentTree] = await Promise.all([
+      this.run(['rev-parse', '--verify', '--end-of-options', `${targetSha}^{tree}`]),
+      this.run(['rev-parse', '--verify', '--end-of-options', `${head}^{tree}`]),
+    ]);
+    if (targetTree === currentTree) return head;
+
+    const commitSha = await this.run(['commit-tree', targetTree, '-p', head], {
+      input: `Restore files to ${targetSha.slice(0, 7)}`,
+    });
+    await this.push(branch, [`${commitSha}:refs/heads/${branch}`]);
+    this.setHead(branch, commitSha);
+    return commitSha;
+  }
+
+  async createPullRequest(): Promise<{ number: number; url: string }> {
+    throw new Error('Pull requests need the GitHub backend (REPO_BACKEND=github)');
+  }
+
+  async updatePullRequest(): Promise<void> {
+    throw new Error('Pull requests need the GitHub backend (REPO_BACKEND=github)');
+  }
+
+  async mergePullRequest(): Promise<void> {
+    throw new Error('Pull requests need the GitHub backend (REPO_BACKEND=github)');
+  }
+
+  // Delete a branch on the remote
+  async deleteBranch(branch: string): Promise<void> {
+    await this.push(branch, [`:refs/heads/${branch}`]);
+    this.heads.delete(branch);
+    this.cache.dropHead(branch);
+  }
+
+  // List the remote's branches; the default one is what the remote's HEAD points at
+  async listBranches(): Promise<Branch[]> {
+    const refs = await this.run(['for-each-ref', '--format=%(refname:lstrip=3) %(objectname)', 'refs/remotes/origin']);
+    const defaultBranch = await this.run(['symbolic-ref', '--short', 'refs/remotes/origin/HEAD'])
+      .then(ref => ref.replace(/^origin\//, ''), () => 'main');
+
+    return refs
+      .split('\n')
+      .filter(Boolean)
+      .map(line => line.split(' '))
+      .filter(([name]) => name !== 'HEAD')
+      .map(([name, sha]) => ({ name, sha, isDefault: name === defaultBranch }));
+  }
+
+  // Run an allow-listed command in this repository's checkout under RUN_COMMAND_DIR,
+  // at a commit with the given edits written on top (null deletes a file). The
+  // checkout has no .git, so nothing in it leads back to the clone. Runs one at a
+  // time per repository; the next run starts from a clean checkout again.
+  async runInWorkingTree(
+    command: string,
+    commitSha: string,
+    edits: Map<string, string | null>,
+    timeoutSeconds?: number
+  ): Promise<CommandResult> {
+    checkSha(commitSha);
+    await this.ready();
+    const runDir = getRunDir();
+    const checkout = path.join(runDir, this.owner, this.repo);
+    const home = path.join(runDir, COMMAND_HOME_DIR);
+    // The clone's object store, checked out into a directory outside it
+    const workTree = ['--git-dir', path.join(this.dir, '.git'), '--work-tree', checkout];
+
+    return serialize(`${this.dir}:worktree`, async () => {
+      await fs.mkdir(checkout, { recursive: true });
+      await fs.mkdir(home, { recursive: true });
+      await git(this.dir, [...workTree, 'checkout', '--force', '--quiet', '--detach', commitSha]);
+      // Untracked files go too; ignored ones (node_modules, build caches) are kept
+      await git(this.dir, [...workTree, 'clean', '-fdq']);
+
+      for (const [file, content] of edits) {
+        const target = await pathInCheckout(checkout, file);
+        if (content === null) {
+          await fs.rm(target, { force: true });
+        } else {
+          await fs.mkdir(path.dirname(target), { recursive: true });
+          await fs.writeFile(target, content);
+        }
+      }
+
+      return runCommand(command, { cwd: checkout, home, timeoutSeconds });
+    });
+  }
+}
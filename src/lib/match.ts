@@ -0,0 +1,248 @@
+// Locating str_replace targets: exact first, then tolerant of line endings,
+// then of indentation and other whitespace. When nothing matches, the closest
+// regions are reported so Claude can correct its old_str.
+
+export type MatchStrategy = 'exact' | 'line-endings' | 'whitespace';
+
+export interface MatchRegion {
+  // Offsets into the content
+  start: number;
+  end: number;
+  // 1-based lines the region spans
+  startLine: number;
+  endLine: number;
+}
+
+export interface Candidate {
+  startLine: number;
+  endLine: number;
+  // 0..1, how close the region is to the searched text
+  similarity: number;
+}
+
+export type MatchResult =
+  | { kind: 'unique'; strategy: MatchStrategy; region: MatchRegion }
+  | { kind: 'ambiguous'; strategy: MatchStrategy; regions: MatchRegion[] }
+  | { kind: 'none'; candidates: Candidate[] };
+
+// Closest regions reported when nothing matches
+const MAX_CANDIDATES = 3;
+// Below this, a region is not worth showing
+const MIN_SIMILARITY = 0.4;
+// Locations listed for an ambiguous match
+const MAX_LOCATIONS = 10;
+// Lines shown around each reported location
+const CONTEXT_LINES = 2;
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Pattern matching the text whatever its line endings
+function lineEndingPattern(text: string): string {
+  return text.replace(/\r\n/g, '\n').split('\n').map(escapeRegExp).join('\\r?\\n');
+}
+
+// Pattern matching the text whatever its indentation, trailing spaces, line
+// endings and runs of spaces or tabs; only the line breaks have to agree
+function whitespacePattern(text: string): string {
+  return text
+    .replace(/\r\n/g, '\n')
+    .split(/([ \t]*\n[ \t]*|[ \t]+)/)
+    .map((part, i) => {
+      if (i % 2 === 0) return escapeRegExp(part);
+      return part.includes('\n') ? '[ \\t]*\\r?\\n[ \\t]*' : '[ \\t]+';
+    })
+    .join('');
+}
+
+function lineAt(content: string, offset: number): number {
+  let line = 1;
+  for (let i = content.indexOf('\n'); i !== -1 && i < offset; i = content.indexOf('\n', i + 1)) line++;
+  return line;
+}
+
+function findAll(content: string, pattern: string): MatchRegion[] {
+  const regions: MatchRegion[] = [];
+  const regex = new RegExp(pattern, 'g');
+  for (let match = regex.exec(content); match; match = regex.exec(content)) {
+    if (match[0].length === 0) {
+      regex.lastIndex++;
+      continue;
+    }
+    const start = match.index;
+    const end = start + match[0].length;
+    regions.push({ start, end, startLine: lineAt(content, start), endLine: lineAt(content, end - 1) });
+  }
+  return regions;
+}
+
+// Find where oldStr is in content, trying each strategy until one matches
+export function findMatch(content: string, oldStr: string): MatchResult {
+  const strategies: Array<[MatchStrategy, string]> = [
+    ['exact', escapeRegExp(oldStr)],
+    ['line-endings', lineEndingPattern(oldStr)],
+    ['whitespace', whitespacePattern(oldStr.trim())],
+  ];
+
+  const tried = new Set<string>();
+  for (const [strategy, pattern] of strategies) {
+    if (!pattern || tried.has(pattern)) continue;
+    tried.add(pattern);
+    const regions = findAll(content, pattern);
+    if (regions.length === 1) return { kind: 'unique', strategy, region: regions[0] };
+    if (regions.length > 1) return { kind: 'ambiguous', strategy, regions };
+  }
+  return { kind: 'none', candidates: findCandidates(content, oldStr) };
+}
+
+// Whitespace-insensitive form used for similarity scores
+function squash(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+function bigrams(text: string): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (let i = 0; i < text.length - 1; i++) {
+    const pair = text.slice(i, i + 2);
+    counts.set(pair, (counts.get(pair) || 0) + 1);
+  }
+  return counts;
+}
+
+// Dice coefficient over character pairs: 1 for equal texts, 0 for nothing in common
+export function similarity(a: string, b: string): number {
+  if (a === b) return 1;
+  if (a.length < 2 || b.length < 2) return 0;
+  const pairs = bigrams(a);
+  let shared = 0;
+  for (let i = 0; i < b.length - 1; i++) {
+    const pair = b.slice(i, i + 2);
+    const count = pairs.get(pair) || 0;
+    if (count > 0) {
+      pairs.set(pair, count - 1);
+      shared++;
+    }
+  }
+  return (2 * shared) / (a.length + b.length - 2);
+}
+
+// Windows of content with as many lines as oldStr, most similar first, not overlapping
+function findCandidates(content: string, oldStr: string): Candidate[] {
+  const lines = content.split(/\r?\n/);
+  const target = squash(oldStr);
+  const size = Math.max(1, oldStr.trim().split(/\r?\n/).length);
+  if (!target) return [];
+
+  const scored: Candidate[] = [];
+  for (let i = 0; i + size <= Math.max(lines.length, size); i++) {
+    const window = squash(lines.slice(i, i + size).join('\n'));
+    const score = similarity(window, target);
+    if (score >= MIN_SIMILARITY) {
+      scored.push({ startLine: i + 1, endLine: Math.min(i + size, lines.length), similarity: score });
+    }
+  }
+
+  const picked: Candidate[] = [];
+  for (const candidate of scored.sort((a, b) => b.similarity - a.similarity)) {
+    if (picked.some(p => candidate.startLine <= p.endLine && candidate.endLine >= p.startLine)) continue;
+    picked.push(candidate);
+    if (picked.length === MAX_CANDIDATES) break;
+  }
+  return picked;
+}
+
+// Numbered lines of content around a region, for error messages
+export function formatRegion(content: string, startLine: number, endLine: number, context: number = CONTEXT_LINES): string {
+  const lines = content.split(/\r?\n/);
+  if (lines[lines.length - 1] === '') lines.pop();
+  const from = Math.max(1, startLine - context);
+  const to = Math.min(lines.length, endLine + context);
+  const width = String(to).length;
+  return lines
+    .slice(from - 1, to)
+    .map((line, i) => {
+      const number = from + i;
+      const marker = number >= startLine && number <= endLine ? '>' : ' ';
+      return `  ${marker} ${String(number).padStart(width)}: ${line}`;
+    })
+    .join('\n');
+}
+
+// Numbered excerpts of the closest regions, for a failed match
+export function formatCandidates(content: string, candidates: Candidate[]): string {
+  return candidates
+    .map(c => `Lines ${c.startLine}-${c.endLine} (${Math.round(c.similarity * 100)}% similar):\n${formatRegion(content, c.startLine, c.endLine, 0)}`)
+    .join('\n\n');
+}
+
+// Every location of an ambiguous match with the lines around it
+export function formatLocations(content: string, regions: MatchRegion[]): string {
+  const shown = regions
+    .slice(0, MAX_LOCATIONS)
+    .map(r => `Line ${r.startLine}:\n${formatRegion(content, r.startLine, r.endLine)}`)
+    .join('\n\n');
+  const hidden = regions.length - MAX_LOCATIONS;
+  return hidden > 0 ? `${shown}\n\n...and ${hidden} more` : shown;
+}
+
+function indentationOf(line: string): string {
+  return line.match(/^[ \t]*/)![0];
+}
+
+// Adapt newStr to a region found by a tolerant strategy, so the file keeps its
+// own line endings and the replacement is indented the way the region is
+export function adaptReplacement(
+  content: string,
+  region: MatchRegion,
+  strategy: MatchStrategy,
+  oldStr: string,
+  newStr: string
+): string {
+  const lineEnd = content.indexOf('\n', region.start);
+  const eol = lineEnd > 0 && content[lineEnd - 1] === '\r' ? '\r\n' : '\n';
+  let text = newStr.replace(/\r\n/g, '\n');
+  if (strategy !== 'whitespace') {
+    return text.split('\n').join(eol);
+  }
+
+  // The region leaves out the whitespace around oldStr, so newStr drops it too
+  const old = oldStr.replace(/\r\n/g, '\n');
+  const before = old.match(/^\s*/)![0];
+  const after = old.slice(before.length).match(/\s*$/)![0];
+  if (before) text = text.startsWith(before) ? text.slice(before.length) : text.replace(/^[ \t]*/, '');
+  if (after && text.endsWith(after)) text = text.slice(0, -after.length);
+
+  // Compare one line's indentation as written in oldStr and as found in the file:
+  // the first indented line after the first, or for a single line the line itself
+  const oldLines = old.trim().split('\n');
+  const matchedLines = content.slice(region.start, region.end).replace(/\r\n/g, '\n').split('\n');
+  const leading = content.slice(content.lastIndexOf('\n', region.start - 1) + 1, region.start);
+  const reference = oldLines.findIndex((line, i) => i > 0 && line.trim() !== '');
+  let shift: ((line: string) => string) | null = null;
+  if (reference > 0) {
+    shift = indentShift(indentationOf(oldLines[reference]), indentationOf(matchedLines[reference]));
+  } else if (/^[ \t]*$/.test(leading)) {
+    shift = indentShift(indentationOf(old.split('\n').find(line => line.trim() !== '')!), leading);
+  }
+
+  // The first line continues from where the region starts; later lines are shifted
+  return text
+    .split('\n')
+    .map((line, i) => i === 0 || !shift || line.trim() === '' ? line : shift(line))
+    .join(eol);
+}
+
+// Turns indentation written one way into the way it was found: deeper,
+// shallower, or with other characters (tabs for spaces)
+function indentShift(written: string, actual: string): (line: string) => string {
+  if (actual.startsWith(written)) {
+    const extra = actual.slice(written.length);
+    return line => extra + line;
+  }
+  if (written.startsWith(actual)) {
+    const extra = written.slice(actual.length);
+    return line => line.startsWith(extra) ? line.slice(extra.length) : line;
+  }
+  return line => line.startsWith(written) ? actual + line.slice(written.length) : line;
+}
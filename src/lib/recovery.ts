@@ -0,0 +1,111 @@
+import { DeployStatus } from '@/types';
+
+// Log lines sent to Claude for a failed deployment
+const MAX_TAIL_LINES = 80;
+// Lines of context kept before the first error line
+const LINES_BEFORE_ERROR = 3;
+const MAX_FRAMES = 10;
+// Files loaded as context for a recovery turn
+const MAX_RECOVERY_FILES = 5;
+
+const ERROR_LINE = /\b(error|failed|failure|exception|cannot|unable to|fatal|panic|traceback)\b/i;
+// path/to/file.ext:line[:column], as printed by compilers, linters and stack traces
+const FILE_REFERENCE = /((?:[A-Za-z]:)?[\w@.~\-/\\]*[\w-]\.(?:ts|tsx|js|jsx|mjs|cjs|py|go|rs|rb|java|kt|php|css|scss|json)):(\d+)(?::(\d+))?/g;
+// Frames from dependencies or the runtime never point at code we can fix
+const IGNORED_FRAME = /(^|[\\/])node_modules[\\/]|^node:|^internal[\\/]|site-packages|<anonymous>/;
+
+export interface StackFrame {
+  path: string;
+  line: number;
+  column?: number;
+}
+
+export interface FailureContext {
+  error?: string;
+  // The part of the log from just before the first error to the end
+  logTail: string[];
+  frames: StackFrame[];
+}
+
+// Pull the error log tail and the stack frames that point into the project
+export function extractFailureContext(deploy: DeployStatus): FailureContext {
+  const logs = deploy.logs || [];
+
+  const firstError = logs.findIndex(line => ERROR_LINE.test(line));
+  const start = firstError === -1
+    ? logs.length - MAX_TAIL_LINES
+    : Math.max(firstError - LINES_BEFORE_ERROR, logs.length - MAX_TAIL_LINES);
+  const logTail = logs.slice(Math.max(0, start));
+
+  const frames: StackFrame[] = [];
+  const seen = new Set<string>();
+  for (const line of logs) {
+    for (const match of line.matchAll(FILE_REFERENCE)) {
+      const path = match[1];
+      const key = `${path}:${match[2]}`;
+      if (IGNORED_FRAME.test(path) || seen.has(key)) continue;
+      seen.add(key);
+      frames.push({
+        path,
+        line: Number(match[2]),
+        column: match[3] ? Number(match[3]) : undefined,
+      });
+    }
+  }
+
+  return { error: deploy.error, logTail, frames: frames.slice(0, MAX_FRAMES) };
+}
+
+// Map paths from a build machine (absolute, ./-prefixed, ...) onto files in the repo
+export function resolveRepoPaths(paths: string[], repoPaths: string[]): string[] {
+  const resolved: string[] = [];
+
+  for (const raw of paths) {
+    const path = raw.replace(/\\/g, '/').replace(/^\.?\//, '');
+    // Longest repo path the reported path ends with, e.g. /app/src/x.ts -> src/x.ts
+    const match = repoPaths
+      .filter(p => path === p || path.endsWith(`/${p}`))
+      .sort((a, b) => b.length - a.length)[0];
+    if (match && !resolved.includes(match)) {
+      resolved.push(match);
+    }
+  }
+
+  return resolved.slice(0, MAX_RECOVERY_FILES);
+}
+
+// The message that starts a recovery turn
+export function buildRecoveryPrompt(
+  deploy: DeployStatus,
+  context: FailureContext,
+  attempt: number,
+  maxAttempts: number
+): string {
+  const sections = [
+    `The preview deployment of branch \`${deploy.branch}\`` +
+      (deploy.commitSha ? ` (commit ${deploy.commitSha.slice(0, 7)})` : '') +
+      ` failed. This is auto-recovery attempt ${attempt} of ${maxAttempts}.`,
+  ];
+
+  if (context.error) {
+    sections.push(`Error: ${context.error}`);
+  }
+
+  if (context.frames.length > 0) {
+    sections.push(
+      'Stack frames:\n' +
+      context.frames.map(f => `- ${f.path}:${f.line}${f.column ? `:${f.column}` : ''}`).join('\n')
+    );
+  }
+
+  sections.push('Log tail:\n```\n' + (context.logTail.join('\n') || '(no logs)') + '\n```');
+
+  sections.push(
+    attempt > 1
+      ? 'The previous fix did not resolve the failure. Look at what was already tried above before changing anything, then fix the root cause.'
+      : 'Find the root cause and fix it with the smallest change that makes the deployment succeed. Do not make unrelated changes.'
+  );
+  sections.push('If the failure is not caused by the code (missing environment variables, platform outage, ...), explain that and do not edit any files.');
+
+  return sections.join('\n\n');
+}
@@ -0,0 +1,144 @@
+import ts from 'typescript';
+import path from 'path';
+import { TypeScriptResolver, TS_EXTENSIONS } from '@/lib/resolvers/typescript';
+import type { ReadFile } from '@/lib/resolvers';
+import { runLimited } from '@/lib/code-index';
+
+const posix = path.posix;
+
+// Extensions a specifier may be written with
+const SPECIFIER_EXTENSIONS = [...TS_EXTENSIONS, '.json'];
+
+const READ_CONCURRENCY = 8;
+
+export interface ReferenceUpdates {
+  // New content of every file whose imports changed, the moved file under its new path
+  files: Array<{ path: string; content: string }>;
+  // Imports that resolved before the move but could not be rewritten ("file: specifier")
+  unresolved: string[];
+}
+
+interface ImportSite {
+  specifier: string;
+  // Offset of the specifier text (inside the quotes)
+  start: number;
+}
+
+function findImports(content: string): ImportSite[] {
+  return ts.preProcessFile(content, true, true).importedFiles
+    .map(f => ({ specifier: f.fileName, start: f.pos + 1 }))
+    .filter(site => content.startsWith(site.specifier, site.start));
+}
+
+function stripExtension(file: string): string {
+  const ext = posix.extname(file);
+  return ext ? file.slice(0, -ext.length) : file;
+}
+
+// The path a specifier spells for a file: same extension style ('./x', './x.js')
+// and index files as their directory when the specifier did so
+function spelledPath(specifier: string, file: string): string {
+  const ext = posix.extname(specifier);
+  if (SPECIFIER_EXTENSIONS.includes(ext)) {
+    return stripExtension(file) + ext;
+  }
+  const stem = stripExtension(file);
+  if (posix.basename(stem) === 'index' && posix.basename(specifier) !== 'index') {
+    return posix.dirname(stem);
+  }
+  return stem;
+}
+
+// Specifiers for the new target, best first: the old one if it still resolves,
+// then rewritten ones in its style
+function candidateSpecifiers(specifier: string, oldTarget: string, newTarget: string, importer: string): string[] {
+  const newPath = spelledPath(specifier, newTarget);
+  const candidates = [specifier];
+
+  // Aliases ('@/lib/x') keep their prefix when the new file is under the same base directory
+  if (!specifier.startsWith('.') && !specifier.startsWith('/')) {
+    const specifierParts = specifier.split('/');
+    const oldParts = spelledPath(specifier, oldTarget).split('/');
+    let shared = 0;
+    while (
+      shared < specifierParts.length - 1 &&
+      shared < oldParts.length &&
+      specifierParts[specifierParts.length - 1 - shared] === oldParts[oldParts.length - 1 - shared]
+    ) shared++;
+
+    const base = oldParts.slice(0, oldParts.length - shared).join('/');
+    if (shared > 0 && (base === '' || newPath.startsWith(`${base}/`))) {
+      const prefix = specifierParts.slice(0, specifierParts.length - shared).join('/');
+      candidates.push(`${prefix}/${base === '' ? newPath : newPath.slice(base.length + 1)}`);
+    }
+  }
+
+  let relative = posix.relative(posix.dirname(importer), newPath);
+  if (!relative.startsWith('.')) relative = `./${relative}`;
+  candidates.push(relative);
+  return candidates;
+}
+
+// Rewrite TypeScript/JavaScript imports after a file moves: files importing it
+// point at the new path, and the moved file's own relative imports still resolve.
+// `files` is every path before the move; `readFile` reads them.
+export async function updateReferences(
+  from: string,
+  to: string,
+  files: Set<string>,
+  readFile: ReadFile
+): Promise<ReferenceUpdates> {
+  const before = new TypeScriptResolver(files, readFile);
+  const after = new TypeScriptResolver(new Set([...files].filter(f => f !== from).concat(to)), readFile);
+  const updates: ReferenceUpdates = { files: [], unresolved: [] };
+
+  // Rewrite the imports of one file; `target` maps what an import resolved to before the move
+  // to what it should resolve to now, or null to leave it alone
+  const rewrite = async (content: string, oldPath: string, newPath: string, target: (file: string) => string | null) => {
+    let updated = content;
+    let changed = false;
+    // Last import first, so earlier offsets stay valid
+    for (const site of findImports(content).reverse()) {
+      const resolved = await before.resolve(site.specifier, oldPath).catch(() => null);
+      const newTarget = resolved && target(resolved);
+      if (!resolved || !newTarget) continue;
+
+      let replacement: string | null = null;
+      for (const candidate of candidateSpecifiers(site.specifier, resolved, newTarget, newPath)) {
+        if (await after.resolve(candidate, newPath).catch(() => null) === newTarget) {
+          replacement = candidate;
+          break;
+        }
+      }
+      if (replacement === null) {
+        updates.unresolved.push(`${newPath}: ${site.specifier}`);
+      } else if (replacement !== site.specifier) {
+        updated = updated.slice(0, site.start) + replacement + updated.slice(site.start + site.specifier.length);
+        changed = true;
+      }
+    }
+    return changed ? updated : null;
+  };
+
+  // Files that may import the moved one mention its name
+  const name = posix.basename(stripExtension(from)) === 'index'
+    ? posix.basename(posix.dirname(from))
+    : posix.basename(stripExtension(from));
+  const importers = [...files].filter(file => file !== from && before.handles(file));
+  await runLimited(importers, READ_CONCURRENCY, async file => {
+    const content = await readFile(file);
+    if (!content || !content.includes(name)) return;
+    const updated = await rewrite(content, file, file, resolved => resolved === from ? to : null);
+    if (updated !== null) updates.files.push({ path: file, content: updated });
+  });
+  updates.files.sort((a, b) => a.path.localeCompare(b.path));
+
+  // The moved file's relative imports, now written from its new directory
+  if (before.handles(from) && posix.dirname(from) !== posix.dirname(to)) {
+    const content = await readFile(from);
+    const updated = content && await rewrite(content, from, to, resolved => resolved);
+    if (updated) updates.files.push({ path: to, content: updated });
+  }
+
+  return updates;
+}
@@ -0,0 +1,26 @@
+import { RepoClient } from '@/lib/repo-client';
+import { GitHubClient } from '@/lib/github';
+import { LocalGitClient } from '@/lib/local-git';
+
+// REPO_BACKEND=local works on git clones on this server instead of the GitHub API.
+// run_command needs it (and RUN_COMMAND_SANDBOX).
+export function usesLocalGit(): boolean {
+  return process.env.REPO_BACKEND === 'local';
+}
+
+export function createRepoClient(token: string, owner: string, repo: string): RepoClient {
+  return usesLocalGit() ? new LocalGitClient(token, owner, repo) : new GitHubClient(token, owner, repo);
+}
+
+// Whether a token can read "owner/name"; stored data about a repository (saved
+// conversations, spend) is only served to callers that pass this
+export async function canAccess(token: string | null, repo: string): Promise<boolean> {
+  const [owner, name] = repo.split('/');
+  if (!token || !owner || !name) return false;
+  try {
+    await createRepoClient(token, owner, name).checkAccess();
+    return true;
+  } catch {
+    return false;
+  }
+}
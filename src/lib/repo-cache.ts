@@ -0,0 +1,129 @@
+// Memory limits for cached repository data, shared by all repositories
+const MAX_BLOB_BYTES = Number(process.env.REPO_CACHE_MAX_MB || 128) * 1024 * 1024;
+const MAX_TREES = 50;
+
+// Least recently used entries are evicted once the total size passes maxSize
+export class LRUCache<K, V> {
+  // Map iteration follows insertion order, so the first key is the least recently used
+  private entries = new Map<K, { value: V; size: number }>();
+  private total = 0;
+
+  constructor(private maxSize: number, private sizeOf: (value: V) => number = () => 1) {}
+
+  get(key: K): V | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry.value;
+  }
+
+  set(key: K, value: V): void {
+    this.delete(key);
+    const size = this.sizeOf(value);
+    // Larger than the whole cache: not worth evicting everything else for
+    if (size > this.maxSize) return;
+
+    this.entries.set(key, { value, size });
+    this.total += size;
+    for (const [oldest, entry] of this.entries) {
+      if (this.total <= this.maxSize) break;
+      this.entries.delete(oldest);
+      this.total -= entry.size;
+    }
+  }
+
+  delete(key: K): void {
+    const entry = this.entries.get(key);
+    if (entry) {
+      this.entries.delete(key);
+      this.total -= entry.size;
+    }
+  }
+}
+
+export interface TreeItem {
+  path: string;
+  type: 'blob' | 'tree' | 'commit';
+  // Git file mode: 100644 file, 100755 executable, 120000 symlink, 040000 tree
+  mode: string;
+  sha: string;
+  size: number;
+}
+
+export interface CachedTree {
+  items: TreeItem[];
+  byPath: Map<string, TreeItem>;
+  // GitHub cut the listing short (very large repositories)
+  truncated: boolean;
+}
+
+// Trees are keyed by "repo@commit" and contents by "repo:blob". Both are
+// immutable, so entries never go stale; only branch heads move.
+const trees = new LRUCache<string, CachedTree>(MAX_TREES);
+// Strings take about two bytes per character
+const blobs = new LRUCache<string, string>(MAX_BLOB_BYTES, content => content.length * 2);
+// "repo#branch" -> last seen head commit
+const heads = new Map<string, string>();
+// Fetches in flight, shared by concurrent requests
+const pending = new Map<string, Promise<any>>();
+
+function load<T>(cache: LRUCache<string, T>, key: string, fetch: () => Promise<T>): Promise<T> {
+  const cached = cache.get(key);
+  if (cached !== undefined) return Promise.resolve(cached);
+
+  let request = pending.get(key) as Promise<T> | undefined;
+  if (!request) {
+    request = fetch()
+      .then(value => {
+        cache.set(key, value);
+        return value;
+      })
+      .finally(() => pending.delete(key));
+    pending.set(key, request);
+  }
+  return request;
+}
+
+// Server-side cache of one repository's git trees and file contents, kept
+// across requests. Callers look up the branch head first (which also checks
+// the token's access), then read everything else by SHA.
+export class RepoCache {
+  constructor(private repo: string) {}
+
+  loadTree(commitSha: string, fetch: () => Promise<CachedTree>): Promise<CachedTree> {
+    return load(trees, `${this.repo}@${commitSha}`, fetch);
+  }
+
+  loadBlob(sha: string, fetch: () => Promise<string>): Promise<string> {
+    return load(blobs, `${this.repo}:${sha}`, fetch);
+  }
+
+  // Record a branch head. When the branch moved, the old commit's tree is
+  // dropped unless another branch still points at it; its blobs age out.
+  setHead(branch: string, commitSha: string): void {
+    const key = `${this.repo}#${branch}`;
+    const previous = heads.get(key);
+    heads.set(key, commitSha);
+    if (previous && previous !== commitSha) {
+      this.dropTree(previous);
+    }
+  }
+
+  dropHead(branch: string): void {
+    const key = `${this.repo}#${branch}`;
+    const previous = heads.get(key);
+    heads.delete(key);
+    if (previous) {
+      this.dropTree(previous);
+    }
+  }
+
+  private dropTree(commitSha: string): void {
+    const prefix = `${this.repo}#`;
+    for (const [key, sha] of heads) {
+      if (key.startsWith(prefix) && sha === commitSha) return;
+    }
+    trees.delete(`${this.repo}@${commitSha}`);
+  }
+}
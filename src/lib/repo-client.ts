@@ -0,0 +1,298 @@
+import { RepoFile, RepoTree, Branch, LoadedFile, DirectoryEntry } from '@/types';
+import { createResolvers, findResolver } from '@/lib/resolvers';
+import { CachedTree, RepoCache, TreeItem } from '@/lib/repo-cache';
+
+// A full commit SHA; anything else is a branch name, or refused where only a SHA may go
+export const COMMIT_SHA = /^[0-9a-f]{40}$/i;
+
+export type FileMode = '100644' | '100755' | '120000';
+
+// Whether a read failed because the file does not exist, not because of rate
+// limits, network or server errors
+export function isNotFound(error: any): boolean {
+  return error?.status === 404 || /^File not found/.test(error?.message || '');
+}
+
+// One repository as the agent sees it. Reads (trees, files, imports) are shared
+// and cached by SHA; each backend supplies refs, trees, blobs and commits, over
+// the GitHub API (GitHubClient) or a local git clone (LocalGitClient).
+export abstract class RepoClient {
+  protected owner: string;
+  protected repo: string;
+  protected cache: RepoCache;
+  // Branch heads looked up by this client; a client lives for one request,
+  // so each branch is checked against the remote once per request
+  protected heads = new Map<string, Promise<string>>();
+  // Commits this client may read from the shared cache: heads it looked up or
+  // moved itself, and SHAs it checked against the remote with its own token
+  private commits = new Map<string, Promise<void>>();
+
+  constructor(owner: string, repo: string) {
+    this.owner = owner;
+    this.repo = repo;
+    this.cache = new RepoCache(this.getRepoName());
+  }
+
+  // Current head of a branch on the remote
+  protected abstract fetchBranchSHA(branch: string): Promise<string>;
+
+  // Recursive tree of a commit
+  protected abstract fetchTree(commitSha: string): Promise<CachedTree>;
+
+  // Content of a blob
+  protected abstract fetchBlob(sha: string): Promise<string>;
+
+  // Look a commit up on the remote; throws if it does not exist or is not readable
+  protected abstract fetchCommit(commitSha: string): Promise<void>;
+
+  // Get the SHA for a branch
+  getBranchSHA(branch: string): Promise<string> {
+    let head = this.heads.get(branch);
+    if (!head) {
+      head = this.fetchBranchSHA(branch).then(sha => {
+        this.cache.setHead(branch, sha);
+        this.commits.set(sha, Promise.resolve());
+        return sha;
+      });
+      this.heads.set(branch, head);
+      head.catch(() => this.heads.delete(branch));
+    }
+    return head;
+  }
+
+  // Record a head this client moved itself, so later reads see the new commit
+  protected setHead(branch: string, commitSha: string): void {
+    this.heads.set(branch, Promise.resolve(commitSha));
+    this.cache.setHead(branch, commitSha);
+    this.commits.set(commitSha, Promise.resolve());
+  }
+
+  // A branch name or a commit SHA -> commit SHA. Cached trees are shared by every
+  // user, so a SHA this client has not seen is first looked up with its token.
+  protected async resolveRef(ref: string): Promise<string> {
+    if (!COMMIT_SHA.test(ref)) return this.getBranchSHA(ref);
+    let check = this.commits.get(ref);
+    if (!check) {
+      check = this.fetchCommit(ref);
+      this.commits.set(ref, check);
+      check.catch(() => this.commits.delete(ref));
+    }
+    await check;
+    return ref;
+  }
+
+  // Recursive tree of a commit, cached by commit SHA
+  private getTree(commitSha: string): Promise<CachedTree> {
+    return this.cache.loadTree(commitSha, () => this.fetchTree(commitSha));
+  }
+
+  // Mode an edited file keeps (executable bit, symlink); 100644 for new files
+  protected async fileMode(commitSha: string, path: string): Promise<FileMode> {
+    const item = (await this.getTree(await this.resolveRef(commitSha))).byPath.get(path);
+    return item?.type === 'blob' && (item.mode === '100755' || item.mode === '120000') ? item.mode : '100644';
+  }
+
+  // Get repository file tree at a branch or commit
+  async getFileTree(branch: string = 'main'): Promise<RepoTree[]> {
+    const { items } = await this.getTree(await this.resolveRef(branch));
+    return this.buildTree([...items]);
+  }
+
+  // Paths of every file at a branch or commit (flat list)
+  async listFilePaths(branch: string = 'main'): Promise<string[]> {
+    const { items } = await this.getTree(await this.resolveRef(branch));
+    return items.filter(item => item.type === 'blob').map(item => item.path);
+  }
+
+  // Entries directly inside a directory ('' for the root) at a branch or commit
+  async listDirectory(dir: string, branch: string = 'main'): Promise<DirectoryEntry[]> {
+    const tree = await this.getTree(await this.resolveRef(branch));
+    const prefix = dir.replace(/^\/+|\/+$/g, '');
+    if (prefix && tree.byPath.get(prefix)?.type !== 'tree') {
+      throw new Error(`Directory not found: ${dir}`);
+    }
+    const inDir = (path: string) => prefix
+      ? path.startsWith(`${prefix}/`) && !path.slice(prefix.length + 1).includes('/')
+      : !path.includes('/');
+    return tree.items
+      .filter(item => inDir(item.path))
+      .map(item => item.type === 'tree'
+        ? { path: item.path, type: 'dir' as const }
+        : { path: item.path, type: 'file' as const, size: item.size });
+  }
+
+  private buildTree(flatTree: TreeItem[]): RepoTree[] {
+    const tree: RepoTree[] = [];
+    const pathMap = new Map<string, RepoTree>();
+
+    // Sort by path to ensure parents are processed first
+    flatTree.sort((a, b) => a.path.localeCompare(b.path));
+
+    for (const item of flatTree) {
+      const node: RepoTree = {
+        path: item.path,
+        type: item.type === 'tree' ? 'dir' : 'file',
+        children: item.type === 'tree' ? [] : undefined,
+      };
+      pathMap.set(item.path, node);
+
+      const parentPath = item.path.split('/').slice(0, -1).join('/');
+      if (parentPath && pathMap.has(parentPath)) {
+        pathMap.get(parentPath)!.children!.push(node);
+      } else {
+        tree.push(node);
+      }
+    }
+
+    return tree;
+  }
+
+  // Get file content at a branch or commit, via the cached tree and blob
+  async getFileContent(path: string, branch: string = 'main'): Promise<RepoFile> {
+    const tree = await this.getTree(await this.resolveRef(branch));
+    const item = tree.byPath.get(path);
+    if (!item) {
+      // A truncated tree may just not list the file
+      if (tree.truncated) return this.fetchFileContent(path, branch);
+      throw new Error(`File not found: ${path}`);
+    }
+    if (item.type !== 'blob') {
+      throw new Error(`Path ${path} is not a file`);
+    }
+    return { path, content: await this.getBlob(item.sha), sha: item.sha };
+  }
+
+  // Get a file a truncated tree did not list; only backends whose trees can be truncated override this
+  protected async fetchFileContent(path: string, _branch: string): Promise<RepoFile> {
+    throw new Error(`File not found: ${path}`);
+  }
+
+  // Get multiple files
+  async getFiles(paths: string[], branch: string = 'main'): Promise<RepoFile[]> {
+    const files = await Promise.all(
+      paths.map(path => this.getFileContent(path, branch).catch(() => null))
+    );
+    return files.filter((f): f is RepoFile => f !== null);
+  }
+
+  // Get files with their imports (hybrid loading), level by level so each
+  // file is tagged with its shortest import distance from an entry file
+  async getFilesWithImports(
+    entryPaths: string[],
+    branch: string = 'main',
+    maxDepth: number = 2
+  ): Promise<LoadedFile[]> {
+    const loaded = new Set<string>();
+    const files: LoadedFile[] = [];
+
+    // Imports are resolved against the branch's file list, so only files that exist are fetched.
+    // Each file's imports are parsed by the resolver for its language.
+    const paths = new Set(await this.listFilePaths(branch).catch(() => [] as string[]));
+    const resolvers = createResolvers(
+      paths,
+      path => this.getFileContent(path, branch).then(f => f.content).catch(() => null)
+    );
+
+    // Entry points may be given without an extension or as a directory
+    const resolveEntry = (path: string) => {
+      if (paths.has(path)) return path;
+      for (const resolver of resolvers) {
+        const resolved = resolver.resolvePath?.(path);
+        if (resolved) return resolved;
+      }
+      return path;
+    };
+
+    let frontier = entryPaths.map(resolveEntry);
+    for (let depth = 0; depth <= maxDepth && frontier.length > 0; depth++) {
+      const level = [...new Set(frontier)].filter(p => !loaded.has(p));
+      level.forEach(p => loaded.add(p));
+
+      const imports = await Promise.all(level.map(async path => {
+        let file: RepoFile;
+        try {
+          file = await this.getFileContent(path, branch);
+        } catch {
+          return [];
+        }
+        files.push({ ...file, depth });
+
+        // Parse imports unless this is the last level
+        const resolver = findResolver(resolvers, path);
+        if (depth === maxDepth || !resolver) return [];
+        return resolver.dependencies(file.content, path).catch(() => []);
+      }));
+      frontier = imports.flat();
+    }
+
+    return files;
+  }
+
+  // Delete a file in its own commit
+  async deleteFile(path: string, message: string, branch: string): Promise<string> {
+    const head = await this.getBranchSHA(branch);
+    await this.getFileContent(path, head);
+    return this.commitFiles(branch, [{ path, content: null }], message, head);
+  }
+
+  // Move (rename) a file in its own commit
+  async moveFile(from: string, to: string, message: string, branch: string): Promise<string> {
+    const head = await this.getBranchSHA(branch);
+    const file = await this.getFileContent(from, head);
+    if (await this.getFileContent(to, head).then(() => true, () => false)) {
+      throw new Error(`File already exists: ${to}`);
+    }
+    return this.commitFiles(branch, [{ path: to, content: file.content, from }, { path: from, content: null }], message, head);
+  }
+
+  // Create a new branch
+  abstract createBranch(branchName: string, fromBranch?: string): Promise<Branch>;
+
+  // Update or create a file
+  abstract updateFile(path: string, content: string, message: string, branch: string, sha?: string): Promise<void>;
+
+  // Commit several file changes at once. A null content deletes the file; `from`
+  // is the parent's path of a moved file, whose mode it keeps. The branch only
+  // moves if its head is still parentSha; returns the new commit SHA.
+  abstract commitFiles(
+    branch: string,
+    files: Array<{ path: string; content: string | null; from?: string }>,
+    message: string,
+    parentSha: string
+  ): Promise<string>;
+
+  // Move a branch to a checkpoint commit ('reset' moves the ref, 'revert' adds a restoring commit)
+  abstract restoreBranch(branch: string, targetSha: string, mode: 'reset' | 'revert', knownShas?: string[]): Promise<string>;
+
+  // Throws unless the token can read the repository
+  abstract checkAccess(): Promise<void>;
+
+  // Pull requests exist only on the GitHub backend
+  abstract createPullRequest(title: string, body: string, head: string, base?: string): Promise<{ number: number; url: string }>;
+
+  abstract updatePullRequest(prNumber: number, body: string): Promise<void>;
+
+  abstract mergePullRequest(prNumber: number): Promise<void>;
+
+  abstract deleteBranch(branch: string): Promise<void>;
+
+  abstract listBranches(): Promise<Branch[]>;
+
+  // "owner/repo", used to key caches and indexes
+  getRepoName(): string {
+    return `${this.owner}/${this.repo}`;
+  }
+
+  // Every file in a commit with its blob SHA and size
+  async getTreeEntries(commitSha: string): Promise<Array<{ path: string; sha: string; size: number }>> {
+    const { items } = await this.getTree(await this.resolveRef(commitSha));
+    return items
+      .filter(item => item.type === 'blob')
+      .map(({ path, sha, size }) => ({ path, sha, size }));
+  }
+
+  // Content of a blob by SHA, cached
+  getBlob(sha: string): Promise<string> {
+    return this.cache.loadBlob(sha, () => this.fetchBlob(sha));
+  }
+}
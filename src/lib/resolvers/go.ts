@@ -0,0 +1,82 @@
+import path from 'path';
+import type { DependencyResolver, ReadFile } from '@/lib/resolvers';
+
+const posix = path.posix;
+
+// Files loaded per imported package (a Go import names a whole directory)
+const MAX_PACKAGE_FILES = 5;
+
+// import "a/b" / import x "a/b" / import ( ... )
+const IMPORT_BLOCK = /^import\s*\(([\s\S]*?)\)/gm;
+const IMPORT_LINE = /^import\s+(?:[\w.]+\s+)?"([^"]+)"/gm;
+const QUOTED = /(?:^|\s)(?:[\w.]+\s+)?"([^"]+)"/g;
+
+interface GoModule {
+  path: string;
+  dir: string;
+}
+
+// Resolves Go imports to the package directories of modules in the repository,
+// using the module path declared in each go.mod
+export class GoResolver implements DependencyResolver {
+  private modules: Promise<GoModule[]> | null = null;
+
+  constructor(private files: Set<string>, private readFile: ReadFile) {}
+
+  handles(filePath: string): boolean {
+    return filePath.endsWith('.go');
+  }
+
+  async dependencies(content: string, fromPath: string): Promise<string[]> {
+    const imports = new Set<string>();
+    for (const block of content.matchAll(IMPORT_BLOCK)) {
+      // Drop line comments inside the block
+      const body = block[1].replace(/\/\/.*$/gm, '');
+      for (const match of body.matchAll(QUOTED)) imports.add(match[1]);
+    }
+    for (const match of content.matchAll(IMPORT_LINE)) imports.add(match[1]);
+
+    const modules = await this.getModules();
+    const found: string[] = [];
+    for (const importPath of imports) {
+      // The longest module path that prefixes the import owns it
+      const module = modules
+        .filter(m => importPath === m.path || importPath.startsWith(`${m.path}/`))
+        .sort((a, b) => b.path.length - a.path.length)[0];
+      if (!module) continue; // standard library or a third-party module
+
+      const dir = posix.join(module.dir, importPath.slice(module.path.length));
+      found.push(...this.packageFiles(dir).filter(f => f !== fromPath));
+    }
+    return [...new Set(found)];
+  }
+
+  // Non-test sources of a package, the file named after the package first
+  private packageFiles(dir: string): string[] {
+    const prefix = dir === '.' ? '' : `${dir}/`;
+    const sources = [...this.files]
+      .filter(f =>
+        f.startsWith(prefix) &&
+        f.endsWith('.go') &&
+        !f.endsWith('_test.go') &&
+        !f.slice(prefix.length).includes('/')
+      )
+      .sort();
+
+    const named = `${prefix}${posix.basename(dir)}.go`;
+    return [...sources.filter(f => f === named), ...sources.filter(f => f !== named)].slice(0, MAX_PACKAGE_FILES);
+  }
+
+  // Every module in the repository (one per go.mod)
+  private getModules(): Promise<GoModule[]> {
+    if (!this.modules) {
+      const manifests = [...this.files].filter(f => f === 'go.mod' || f.endsWith('/go.mod'));
+      this.modules = Promise.all(manifests.map(async manifest => {
+        const text = await this.readFile(manifest);
+        const match = text?.match(/^module\s+"?([^\s"]+)"?/m);
+        return match ? { path: match[1], dir: posix.dirname(manifest) } : null;
+      })).then(list => list.filter((m): m is GoModule => m !== null));
+    }
+    return this.modules;
+  }
+}
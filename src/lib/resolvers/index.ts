@@ -0,0 +1,30 @@
+import { TypeScriptResolver } from '@/lib/resolvers/typescript';
+import { PythonResolver } from '@/lib/resolvers/python';
+import { GoResolver } from '@/lib/resolvers/go';
+import { StyleResolver } from '@/lib/resolvers/style';
+
+// Loads a repository file, or null if it cannot be read
+export type ReadFile = (path: string) => Promise<string | null>;
+
+// Finds the repository files a source file depends on, for one language
+export interface DependencyResolver {
+  handles(path: string): boolean;
+  dependencies(content: string, path: string): Promise<string[]>;
+  // Map a loose path (no extension, a directory, ...) to a file, for entry points
+  resolvePath?(target: string): string | null;
+}
+
+// One resolver per language, all working from the same file list.
+// `files` is every path in the branch; `readFile` fetches config files (tsconfig, go.mod, ...).
+export function createResolvers(files: Set<string>, readFile: ReadFile): DependencyResolver[] {
+  return [
+    new TypeScriptResolver(files, readFile),
+    new PythonResolver(files),
+    new GoResolver(files, readFile),
+    new StyleResolver(files),
+  ];
+}
+
+export function findResolver(resolvers: DependencyResolver[], path: string): DependencyResolver | undefined {
+  return resolvers.find(r => r.handles(path));
+}
@@ -0,0 +1,91 @@
+import path from 'path';
+import type { DependencyResolver } from '@/lib/resolvers';
+
+const posix = path.posix;
+
+// import a.b, c as d
+const IMPORT_STATEMENT = /^[ \t]*import[ \t]+([^\n#;]+)/gm;
+// from .a.b import x, y / from a import (x, y)
+const FROM_STATEMENT = /^[ \t]*from[ \t]+(\.*[\w.]*)[ \t]+import[ \t]+(\([^)]*\)|[^\n#;]+)/gm;
+
+// Names in an import list, without aliases: "a as b, c" -> ["a", "c"]
+function importNames(list: string): string[] {
+  return list
+    .replace(/[()]/g, '')
+    .split(',')
+    .map(part => part.trim().split(/\s+as\s+/)[0].trim())
+    .filter(name => name && name !== '*');
+}
+
+// Resolves Python imports to modules (name.py) and packages (name/__init__.py)
+export class PythonResolver implements DependencyResolver {
+  constructor(private files: Set<string>) {}
+
+  handles(filePath: string): boolean {
+    return filePath.endsWith('.py') || filePath.endsWith('.pyi');
+  }
+
+  async dependencies(content: string, fromPath: string): Promise<string[]> {
+    // Backslash continuations become one line
+    const source = content.replace(/\\\r?\n/g, ' ');
+    const roots = this.sourceRoots(fromPath);
+    const found = new Set<string>();
+    const add = (file: string | null) => {
+      if (file && file !== fromPath) found.add(file);
+    };
+
+    for (const match of source.matchAll(IMPORT_STATEMENT)) {
+      for (const name of importNames(match[1])) {
+        add(this.resolveModule(name, roots));
+      }
+    }
+
+    for (const match of source.matchAll(FROM_STATEMENT)) {
+      const [, module, list] = match;
+      const names = importNames(list);
+      const level = module.match(/^\.*/)![0].length;
+
+      // Relative imports start from the importing file's package
+      const bases = level > 0
+        ? [posix.join(posix.dirname(fromPath), ...Array(level - 1).fill('..'))]
+        : roots;
+      const dotted = module.slice(level);
+
+      const target = dotted ? this.resolveModule(dotted, bases) : this.findModule(bases.map(b => posix.join(b, '__init__.py')));
+      let allSubmodules = true;
+      for (const name of names) {
+        // `from pkg import mod` may name a submodule rather than something defined in pkg
+        const submodule = this.resolveModule(dotted ? `${dotted}.${name}` : name, bases);
+        if (submodule) add(submodule);
+        else allSubmodules = false;
+      }
+      if (!allSubmodules || names.length === 0) add(target);
+    }
+
+    return [...found];
+  }
+
+  // Directories absolute imports are looked up from: the one holding the importing
+  // file's top-level package, the file's own directory, the repo root and src/
+  private sourceRoots(fromPath: string): string[] {
+    let dir = posix.dirname(fromPath);
+    while (dir !== '.' && this.files.has(`${dir}/__init__.py`)) {
+      dir = posix.dirname(dir);
+    }
+    return [...new Set([dir, posix.dirname(fromPath), '.', 'src'])];
+  }
+
+  // a.b.c -> a/b/c.py or a/b/c/__init__.py under one of the roots
+  private resolveModule(dotted: string, roots: string[]): string | null {
+    const modulePath = dotted.replace(/\./g, '/');
+    return this.findModule(roots.flatMap(root => [
+      posix.join(root, `${modulePath}.py`),
+      posix.join(root, modulePath, '__init__.py'),
+      posix.join(root, `${modulePath}.pyi`),
+    ]));
+  }
+
+  private findModule(candidates: string[]): string | null {
+    return candidates.find(c => this.files.has(c)) ?? null;
+  }
+}
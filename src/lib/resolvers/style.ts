@@ -0,0 +1,62 @@
+import path from 'path';
+import type { DependencyResolver } from '@/lib/resolvers';
+
+const posix = path.posix;
+
+const STYLE_EXTENSIONS = ['.css', '.scss', '.sass', '.less'];
+
+// @import "a", 'b'; / @import url(c); / @use "d" as e; / @forward "f";
+const AT_RULE = /@(import|use|forward)\s+([^;\n]+)/g;
+const SPECIFIER = /url\(\s*['"]?([^'")]+)['"]?\s*\)|['"]([^'"]+)['"]/g;
+
+// Resolves CSS, SCSS, Sass and Less imports, including Sass partials (_name.scss) and index files
+export class StyleResolver implements DependencyResolver {
+  constructor(private files: Set<string>) {}
+
+  handles(filePath: string): boolean {
+    return STYLE_EXTENSIONS.includes(posix.extname(filePath));
+  }
+
+  async dependencies(content: string, fromPath: string): Promise<string[]> {
+    // Block comments can hold commented-out imports
+    const source = content.replace(/\/\*[\s\S]*?\*\//g, '');
+    const found = new Set<string>();
+
+    for (const rule of source.matchAll(AT_RULE)) {
+      for (const match of rule[2].matchAll(SPECIFIER)) {
+        const specifier = (match[1] || match[2]).trim();
+        // Remote stylesheets, Sass built-in modules and packages are outside the repo
+        if (/^(https?:)?\/\//.test(specifier) || specifier.startsWith('sass:') || specifier.startsWith('~')) continue;
+
+        const resolved = this.resolve(specifier, fromPath);
+        if (resolved && resolved !== fromPath) found.add(resolved);
+      }
+    }
+
+    return [...found];
+  }
+
+  private resolve(specifier: string, fromPath: string): string | null {
+    const target = specifier.startsWith('/')
+      ? specifier.slice(1)
+      : posix.join(posix.dirname(fromPath), specifier);
+    const dir = posix.dirname(target);
+    const name = posix.basename(target);
+
+    const candidates = [target];
+    if (!STYLE_EXTENSIONS.includes(posix.extname(name))) {
+      for (const ext of STYLE_EXTENSIONS) {
+        candidates.push(
+          posix.join(dir, `${name}${ext}`),
+          posix.join(dir, `_${name}${ext}`),
+          posix.join(target, `_index${ext}`),
+          posix.join(target, `index${ext}`)
+        );
+      }
+    } else {
+      candidates.push(posix.join(dir, `_${name}`));
+    }
+
+    return candidates.find(c => this.files.has(c)) ?? null;
+  }
+}
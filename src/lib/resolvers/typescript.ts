@@ -0,0 +1,300 @@
+import ts from 'typescript';
+import path from 'path';
+import type { DependencyResolver, ReadFile } from '@/lib/resolvers';
+
+// Files whose imports are parsed
+export const TS_EXTENSIONS = ['.ts', '.tsx', '.mts', '.cts', '.js', '.jsx', '.mjs', '.cjs'];
+
+// Tried in order when a specifier has no extension
+const RESOLVE_EXTENSIONS = ['.ts', '.tsx', '.mts', '.cts', '.d.ts', '.js', '.jsx', '.mjs', '.cjs'];
+
+// package.json "exports" conditions, most useful for reading source first
+const EXPORT_CONDITIONS = ['types', 'source', 'import', 'module', 'default', 'require', 'node'];
+
+// Build output directories that usually mirror src/
+const BUILD_DIRS = /^(dist|lib|build|out)\//;
+
+interface CompilerPaths {
+  // Directory non-relative specifiers are resolved from (baseUrl)
+  baseUrl?: string;
+  paths?: Record<string, string[]>;
+  // Directory `paths` substitutions are relative to
+  pathsBase: string;
+}
+
+interface WorkspacePackage {
+  name: string;
+  dir: string;
+  manifest: any;
+}
+
+const posix = path.posix;
+
+// Parse a JSON file that may contain comments and trailing commas (tsconfig style)
+function parseJsonc(text: string): any {
+  const { config, error } = ts.parseConfigFileTextToJson('file.json', text);
+  return error ? null : config;
+}
+
+// Exact patterns rank above any wildcard
+function prefixLength(pattern: string): number {
+  const star = pattern.indexOf('*');
+  return star === -1 ? Infinity : star;
+}
+
+function isRelative(specifier: string): boolean {
+  return specifier.startsWith('./') || specifier.startsWith('../') || specifier === '.' || specifier === '..';
+}
+
+// Match a specifier against a `paths` or `exports` pattern with at most one '*'
+function matchPattern(pattern: string, value: string): string | null {
+  const star = pattern.indexOf('*');
+  if (star === -1) return pattern === value ? '' : null;
+  const prefix = pattern.slice(0, star);
+  const suffix = pattern.slice(star + 1);
+  if (value.length >= prefix.length + suffix.length && value.startsWith(prefix) && value.endsWith(suffix)) {
+    return value.slice(prefix.length, value.length - suffix.length);
+  }
+  return null;
+}
+
+// Resolves TypeScript/JavaScript module specifiers to files in a repository,
+// following tsconfig `baseUrl`/`paths` and the package.json of workspace packages.
+export class TypeScriptResolver implements DependencyResolver {
+  private configs = new Map<string, Promise<CompilerPaths>>();
+  private packages: Promise<WorkspacePackage[]> | null = null;
+
+  // `files` is every path in the repository; `readFile` loads one of them
+  constructor(private files: Set<string>, private readFile: ReadFile) {}
+
+  handles(filePath: string): boolean {
+    return TS_EXTENSIONS.includes(posix.extname(filePath)) && !filePath.endsWith('.d.ts');
+  }
+
+  async dependencies(content: string, fromPath: string): Promise<string[]> {
+    const resolved = await Promise.all(
+      this.parse(content).map(specifier => this.resolve(specifier, fromPath).catch(() => null))
+    );
+    return resolved.filter((p): p is string => p !== null);
+  }
+
+  // Module specifiers of every import, export-from, require and dynamic import()
+  parse(content: string): string[] {
+    const info = ts.preProcessFile(content, true, true);
+    return [...new Set(info.importedFiles.map(f => f.fileName))];
+  }
+
+  // The repository file a specifier refers to, or null for external packages
+  async resolve(specifier: string, fromPath: string): Promise<string | null> {
+    if (isRelative(specifier)) {
+      return this.resolvePath(posix.join(posix.dirname(fromPath), specifier));
+    }
+    if (specifier.startsWith('/')) {
+      return this.resolvePath(specifier.slice(1));
+    }
+
+    const config = await this.getCompilerPaths(fromPath);
+
+    // tsconfig paths: the longest matching prefix wins
+    if (config.paths) {
+      const candidates = Object.keys(config.paths)
+        .map(pattern => ({ pattern, match: matchPattern(pattern, specifier) }))
+        .filter(c => c.match !== null)
+        .sort((a, b) => prefixLength(b.pattern) - prefixLength(a.pattern));
+
+      for (const { pattern, match } of candidates) {
+        for (const substitution of config.paths[pattern]) {
+          const resolved = this.resolvePath(posix.join(config.pathsBase, substitution.replace('*', match!)));
+          if (resolved) return resolved;
+        }
+      }
+    }
+
+    if (config.baseUrl !== undefined) {
+      const resolved = this.resolvePath(posix.join(config.baseUrl, specifier));
+      if (resolved) return resolved;
+    }
+
+    return this.resolveWorkspacePackage(specifier);
+  }
+
+  // A path without extension, with a JS extension standing for TS source, or a directory
+  resolvePath(target: string): string | null {
+    const base = posix.normalize(target).replace(/^\.\//, '').replace(/\/$/, '');
+    if (base.startsWith('..')) return null;
+
+    if (this.files.has(base) && posix.extname(base)) return base;
+
+    // import './x.js' in TypeScript refers to x.ts
+    const jsExtension = base.match(/\.(m|c)?jsx?$/);
+    if (jsExtension) {
+      const stem = base.slice(0, -jsExtension[0].length);
+      const tsExtensions = jsExtension[1] ? [`.${jsExtension[1]}ts`] : ['.ts', '.tsx'];
+      for (const ext of tsExtensions) {
+        if (this.files.has(stem + ext)) return stem + ext;
+      }
+    }
+
+    for (const ext of RESOLVE_EXTENSIONS) {
+      if (this.files.has(base + ext)) return base + ext;
+    }
+    for (const ext of RESOLVE_EXTENSIONS) {
+      const index = `${base}/index${ext}`;
+      if (this.files.has(index)) return index;
+    }
+    return null;
+  }
+
+  // Nearest tsconfig.json (or jsconfig.json) above a file, with `extends` applied
+  private getCompilerPaths(fromPath: string): Promise<CompilerPaths> {
+    let dir = posix.dirname(fromPath);
+    while (true) {
+      for (const name of ['tsconfig.json', 'jsconfig.json']) {
+        const configPath = dir === '.' ? name : `${dir}/${name}`;
+        if (this.files.has(configPath)) {
+          return this.loadConfig(configPath);
+        }
+      }
+      if (dir === '.' || dir === '') break;
+      dir = posix.dirname(dir);
+    }
+    return Promise.resolve({ pathsBase: '.' });
+  }
+
+  private loadConfig(configPath: string, depth: number = 0): Promise<CompilerPaths> {
+    let pending = this.configs.get(configPath);
+    if (!pending) {
+      pending = this.readConfig(configPath, depth);
+      this.configs.set(configPath, pending);
+    }
+    return pending;
+  }
+
+  private async readConfig(configPath: string, depth: number): Promise<CompilerPaths> {
+    const dir = posix.dirname(configPath);
+    const text = await this.readFile(configPath);
+    const config = text ? parseJsonc(text) : null;
+    if (!config) return { pathsBase: dir };
+
+    // Only configs inside the repository can be followed
+    let inherited: CompilerPaths = { pathsBase: dir };
+    const parents = Array.isArray(config.extends) ? config.extends : config.extends ? [config.extends] : [];
+    for (const parent of parents) {
+      if (typeof parent !== 'string' || !isRelative(parent) || depth > 5) continue;
+      let parentPath = posix.join(dir, parent);
+      if (!parentPath.endsWith('.json')) parentPath += '.json';
+      if (this.files.has(parentPath)) {
+        inherited = { ...inherited, ...stripUndefined(await this.loadConfig(parentPath, depth + 1)) };
+      }
+    }
+
+    const options = config.compilerOptions || {};
+    const baseUrl = typeof options.baseUrl === 'string' ? posix.join(dir, options.baseUrl) : inherited.baseUrl;
+    if (options.paths && typeof options.paths === 'object') {
+      // Without baseUrl, paths are relative to the config that declares them
+      return { baseUrl, paths: options.paths, pathsBase: baseUrl ?? dir };
+    }
+    return { ...inherited, baseUrl };
+  }
+
+  // Packages in the repository, by their package.json name
+  private getWorkspacePackages(): Promise<WorkspacePackage[]> {
+    if (!this.packages) {
+      const manifests = [...this.files].filter(f =>
+        (f === 'package.json' || f.endsWith('/package.json')) && !f.includes('node_modules/')
+      );
+      this.packages = Promise.all(manifests.map(async manifestPath => {
+        const text = await this.readFile(manifestPath);
+        const manifest = text ? parseJsonc(text) : null;
+        return manifest?.name
+          ? { name: manifest.name as string, dir: posix.dirname(manifestPath), manifest }
+          : null;
+      })).then(list => list.filter((p): p is WorkspacePackage => p !== null));
+    }
+    return this.packages;
+  }
+
+  private async resolveWorkspacePackage(specifier: string): Promise<string | null> {
+    const packages = await this.getWorkspacePackages();
+    const pkg = packages
+      .filter(p => specifier === p.name || specifier.startsWith(`${p.name}/`))
+      .sort((a, b) => b.name.length - a.name.length)[0];
+    if (!pkg) return null;
+
+    const subpath = '.' + specifier.slice(pkg.name.length);
+    const inPackage = (target: string) => this.resolvePackageTarget(pkg.dir, target);
+
+    const { exports } = pkg.manifest;
+    if (exports !== undefined && exports !== null) {
+      for (const target of resolveExports(exports, subpath)) {
+        const resolved = inPackage(target);
+        if (resolved) return resolved;
+      }
+      return null;
+    }
+
+    if (subpath !== '.') {
+      return this.resolvePath(posix.join(pkg.dir, subpath));
+    }
+    for (const field of ['types', 'typings', 'source', 'module', 'main']) {
+      const target = pkg.manifest[field];
+      const resolved = typeof target === 'string' ? inPackage(target) : null;
+      if (resolved) return resolved;
+    }
+    return this.resolvePath(pkg.dir);
+  }
+
+  // A file named by package.json; build output is mapped back to its source
+  private resolvePackageTarget(dir: string, target: string): string | null {
+    const direct = this.resolvePath(posix.join(dir, target));
+    if (direct) return direct;
+
+    const relative = posix.normalize(target).replace(/^\.\//, '');
+    if (BUILD_DIRS.test(relative)) {
+      const source = relative.replace(BUILD_DIRS, 'src/').replace(/\.d\.ts$/, '');
+      return this.resolvePath(posix.join(dir, source));
+    }
+    return null;
+  }
+}
+
+function stripUndefined<T extends object>(value: T): Partial<T> {
+  return Object.fromEntries(Object.entries(value).filter(([, v]) => v !== undefined)) as Partial<T>;
+}
+
+// Targets for a subpath from a package.json "exports" field, best first
+export function resolveExports(exports: any, subpath: string): string[] {
+  const isSubpathMap = typeof exports === 'object' && !Array.isArray(exports) &&
+    Object.keys(exports).some(key => key.startsWith('.'));
+
+  if (!isSubpathMap) {
+    return subpath === '.' ? resolveConditions(exports, '') : [];
+  }
+
+  if (subpath in exports) {
+    return resolveConditions(exports[subpath], '');
+  }
+
+  // Patterns like "./*" or "./utils/*.js"; the longest prefix wins
+  const patterns = Object.keys(exports)
+    .map(key => ({ key, match: key.includes('*') ? matchPattern(key, subpath) : null }))
+    .filter(p => p.match !== null)
+    .sort((a, b) => prefixLength(b.key) - prefixLength(a.key));
+
+  return patterns.length > 0 ? resolveConditions(exports[patterns[0].key], patterns[0].match!) : [];
+}
+
+function resolveConditions(target: any, match: string): string[] {
+  if (typeof target === 'string') {
+    return [target.replace(/\*/g, match)];
+  }
+  if (Array.isArray(target)) {
+    return target.flatMap(t => resolveConditions(t, match));
+  }
+  if (target && typeof target === 'object') {
+    return EXPORT_CONDITIONS
+      .filter(condition => condition in target)
+      .flatMap(condition => resolveConditions(target[condition], match));
+  }
+  return [];
+}
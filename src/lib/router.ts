@@ -0,0 +1,89 @@
+import { MODELS, MODEL_LABELS, ModelKey } from '@/lib/claude';
+import { Settings } from '@/types';
+
+export type ModelTier = keyof typeof MODELS;
+
+const TIERS: ModelTier[] = ['haiku', 'sonnet', 'opus'];
+
+export interface RouteDecision {
+  model: ModelKey;
+  reason: string;
+}
+
+export interface RouteRequest {
+  message: string;
+  contextTokens: number;
+  settings?: Partial<Settings>;
+}
+
+// Requests that touch design or many files at once
+const COMPLEX_PATTERN = /\b(refactor|architect\w*|redesign|migrat\w+|rewrite|across (the )?(codebase|repo|project)|security|concurren\w+|race condition|performance|optimi[sz]e)\b/i;
+
+// Requests that need the editing tools
+const EDIT_PATTERN = /\b(add|implement|fix|change|update|create|remove|delete|write|edit|replace|move|rename|build)\b/i;
+
+// Requests a small model handles well: questions, explanations and cosmetic edits
+const SIMPLE_PATTERN = /\b(explain|what (is|does|are)|where (is|are)|how does|why does|list|show me|summari[sz]e|typo|comment|spelling|wording)\b/i;
+
+// Context sizes (in tokens) that call for a stronger model
+const LARGE_CONTEXT_TOKENS = 60_000;
+const LONG_MESSAGE_CHARS = 1_200;
+
+// Consecutive failed edits before escalating to a stronger model
+export const ESCALATE_AFTER_FAILURES = 2;
+
+export function isRoutingEnabled(settings?: Partial<Settings>): boolean {
+  return !!settings?.enableMultiModelRouting || settings?.model === 'auto';
+}
+
+// Pick the cheapest model that should handle the request
+export function routeModel({ message, contextTokens, settings }: RouteRequest): RouteDecision {
+  const fixed = settings?.model;
+
+  if (!isRoutingEnabled(settings)) {
+    const tier: ModelTier = fixed === 'opus' || fixed === 'haiku' ? fixed : 'sonnet';
+    return { model: MODELS[tier], reason: 'Selected in settings' };
+  }
+
+  let score = 0;
+  const reasons: string[] = [];
+
+  if (COMPLEX_PATTERN.test(message)) {
+    score += 2;
+    reasons.push('complex change');
+  }
+  if (message.length > LONG_MESSAGE_CHARS) {
+    score += 1;
+    reasons.push('long request');
+  }
+  if (contextTokens > LARGE_CONTEXT_TOKENS) {
+    score += 1;
+    reasons.push(`large context (~${Math.round(contextTokens / 1000)}k tokens)`);
+  }
+  if (EDIT_PATTERN.test(message)) {
+    score += 1;
+    reasons.push('needs edit tools');
+  }
+  if (SIMPLE_PATTERN.test(message)) {
+    score -= 1;
+    reasons.push('simple question or cosmetic edit');
+  }
+
+  const tier: ModelTier = score <= 0 ? 'haiku' : score >= 3 ? 'opus' : 'sonnet';
+  return {
+    model: MODELS[tier],
+    reason: `Auto: ${reasons.length > 0 ? reasons.join(', ') : 'short request'}`,
+  };
+}
+
+// Next stronger model, or null if already on the strongest (or on `limit`, when given)
+export function escalateModel(current: ModelKey, limit?: ModelKey): ModelKey | null {
+  const index = TIERS.findIndex(t => MODELS[t] === current);
+  if (index === -1 || index === TIERS.length - 1) return null;
+  if (limit && index >= TIERS.findIndex(t => MODELS[t] === limit)) return null;
+  return MODELS[TIERS[index + 1]];
+}
+
+export function describeModel(model: ModelKey): string {
+  return MODEL_LABELS[model] || model;
+}
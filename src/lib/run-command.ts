@@ -0,0 +1,221 @@
+import { spawn } from 'child_process';
+
+// Commands Claude may run when RUN_COMMAND_ALLOWLIST is not set. A command is
+// allowed when it starts with one of these; extra arguments pass through, and
+// test scripts run whatever the repository (edited by Claude) says. The list
+// picks the tool, it does not make what runs safe: that is the sandbox's job.
+const DEFAULT_ALLOWLIST = [
+  'npm test',
+  'npm run test',
+  'npm run lint',
+  'npm run build',
+  'npm run typecheck',
+  'npm ci',
+  'npx tsc --noEmit',
+  'tsc --noEmit',
+  'yarn test',
+  'pnpm test',
+  'go test',
+  'go vet',
+  'go build',
+  'pytest',
+  'python -m pytest',
+  'cargo test',
+  'cargo check',
+  'make test',
+];
+
+export const DEFAULT_TIMEOUT_SECONDS = 120;
+export const MAX_TIMEOUT_SECONDS = 600;
+
+// Output kept per command: the start and the end, where errors and summaries are
+const MAX_OUTPUT_CHARS = 20000;
+
+export interface CommandResult {
+  command: string;
+  // null when the command was killed
+  exitCode: number | null;
+  timedOut: boolean;
+  output: string;
+  durationMs: number;
+}
+
+export interface RunOptions {
+  // Directory the command runs in
+  cwd: string;
+  // HOME for the command, so package manager caches stay out of the checkout
+  home: string;
+  timeoutSeconds?: number;
+}
+
+// RUN_COMMAND_SANDBOX is the command prefix that isolates what runs from the
+// server (a container, bubblewrap, another user); {dir} and {home} are filled
+// in. "none" runs commands directly as the server user. Unset, nothing runs.
+export function getSandbox(): string | undefined {
+  return process.env.RUN_COMMAND_SANDBOX?.trim() || undefined;
+}
+
+export function canRunCommands(): boolean {
+  return getSandbox() !== undefined;
+}
+
+// Arguments that start every command: the sandbox prefix with its placeholders filled in
+function sandboxArgs(options: RunOptions): string[] {
+  const sandbox = getSandbox();
+  if (!sandbox) {
+    throw new Error('run_command is not enabled: set RUN_COMMAND_SANDBOX on the server');
+  }
+  if (sandbox === 'none') return [];
+  return sandbox
+    .split(/\s+/)
+    .map(arg => arg.replace(/\{dir\}/g, options.cwd).replace(/\{home\}/g, options.home));
+}
+
+export function getAllowedCommands(): string[] {
+  const configured = process.env.RUN_COMMAND_ALLOWLIST;
+  if (!configured) return DEFAULT_ALLOWLIST;
+  return configured.split(',').map(c => c.trim()).filter(Boolean);
+}
+
+// Split a command line into arguments. Quotes group words; anything a shell
+// would interpret (pipes, redirects, substitutions) is refused, since no shell runs it.
+export function parseCommand(command: string): string[] {
+  const args: string[] = [];
+  let current = '';
+  let inWord = false;
+  let quote: '"' | "'" | null = null;
+
+  for (const char of command.trim()) {
+    if (quote) {
+      if (char === quote) quote = null;
+      else current += char;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+      inWord = true;
+    } else if (/\s/.test(char)) {
+      if (inWord) args.push(current);
+      current = '';
+      inWord = false;
+    } else if (/[;&|<>$`\\(){}*?~]/.test(char)) {
+      throw new Error(`Shell syntax is not supported: "${char}" in ${command}`);
+    } else {
+      current += char;
+      inWord = true;
+    }
+  }
+  if (quote) {
+    throw new Error(`Unterminated quote in ${command}`);
+  }
+  if (inWord) args.push(current);
+  return args;
+}
+
+export function isAllowed(args: string[], allowed: string[] = getAllowedCommands()): boolean {
+  return allowed.some(entry => {
+    const prefix = entry.split(/\s+/);
+    return prefix.length <= args.length && prefix.every((arg, i) => args[i] === arg);
+  });
+}
+
+// Run an allow-listed command inside the sandbox, without a shell, with a minimal
+// environment and a time limit. On timeout the whole process group is killed.
+export async function runCommand(command: string, options: RunOptions): Promise<CommandResult> {
+  const args = parseCommand(command);
+  if (args.length === 0) {
+    throw new Error('Command is empty');
+  }
+  if (!isAllowed(args)) {
+    throw new Error(`Command not allowed: ${command}. Allowed commands: ${getAllowedCommands().join(', ')}`);
+  }
+  const argv = [...sandboxArgs(options), ...args];
+
+  const timeoutSeconds = Math.min(Math.max(options.timeoutSeconds || DEFAULT_TIMEOUT_SECONDS, 1), MAX_TIMEOUT_SECONDS);
+  const output = new OutputBuffer(MAX_OUTPUT_CHARS);
+  const started = Date.now();
+
+  return new Promise((resolve, reject) => {
+    // Nothing from the server's environment but PATH and LANG, so no secrets reach the
+    // command. NODE_ENV is left unset on purpose (the server's would change npm ci and
+    // builds); Next types it as always set, hence Partial here and the assertion below.
+    const env: Partial<NodeJS.ProcessEnv> = {
+      PATH: process.env.PATH || '/usr/local/bin:/usr/bin:/bin',
+      HOME: options.home,
+      LANG: process.env.LANG || 'C.UTF-8',
+      CI: 'true',
+      NO_COLOR: '1',
+      FORCE_COLOR: '0',
+    };
+    const child = spawn(argv[0], argv.slice(1), {
+      cwd: options.cwd,
+      env: env as NodeJS.ProcessEnv,
+      stdio: ['ignore', 'pipe', 'pipe'],
+      // Own process group, so a timeout also stops what the command started
+      detached: true,
+    });
+
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      try {
+        process.kill(-child.pid!, 'SIGKILL');
+      } catch {
+        child.kill('SIGKILL');
+      }
+    }, timeoutSeconds * 1000);
+
+    child.stdout.on('data', (chunk: Buffer) => output.append(chunk.toString('utf-8')));
+    child.stderr.on('data', (chunk: Buffer) => output.append(chunk.toString('utf-8')));
+    child.on('error', error => {
+      clearTimeout(timer);
+      reject(new Error(`Could not run ${argv[0]}: ${error.message}`));
+    });
+    child.on('close', code => {
+      clearTimeout(timer);
+      resolve({
+        command,
+        exitCode: timedOut ? null : code,
+        timedOut,
+        output: output.toString(),
+        durationMs: Date.now() - started,
+      });
+    });
+  });
+}
+
+// Keeps the first and last half of a stream, dropping the middle once it is too long
+class OutputBuffer {
+  private head = '';
+  private tail = '';
+  private dropped = 0;
+
+  constructor(private maxChars: number) {}
+
+  append(text: string): void {
+    const half = this.maxChars / 2;
+    if (this.head.length < half) {
+      const room = half - this.head.length;
+      this.head += text.slice(0, room);
+      text = text.slice(room);
+    }
+    this.tail += text;
+    if (this.tail.length > half) {
+      this.dropped += this.tail.length - half;
+      this.tail = this.tail.slice(-half);
+    }
+  }
+
+  toString(): string {
+    if (this.dropped === 0) return this.head + this.tail;
+    return `${this.head}\n\n[... ${this.dropped} characters of output omitted ...]\n\n${this.tail}`;
+  }
+}
+
+// Tool result text: the command, its output and how it ended
+export function formatCommandResult(result: CommandResult): string {
+  const seconds = (result.durationMs / 1000).toFixed(1);
+  const status = result.timedOut
+    ? `Timed out after ${seconds}s and was stopped`
+    : `Exit code ${result.exitCode} (${seconds}s)`;
+  const output = result.output.trim() || '(no output)';
+  return `$ ${result.command}\n${output}\n\n${status}`;
+}
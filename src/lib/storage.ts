@@ -0,0 +1,6 @@
+import path from 'path';
+
+// Directory for server-side state (cost ledger, caches, conversations)
+export function getDataDir(): string {
+  return process.env.CLAUDE_CODER_DATA_DIR || path.join(process.cwd(), '.data');
+}
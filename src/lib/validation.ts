@@ -0,0 +1,269 @@
+import ts from 'typescript';
+import path from 'path';
+import { TypeScriptResolver, TS_EXTENSIONS } from '@/lib/resolvers/typescript';
+import type { ReadFile } from '@/lib/resolvers';
+
+const posix = path.posix;
+
+// Repository files live under this root in the in-memory compiler host
+const ROOT = '/repo';
+
+// Diagnostics returned at most, so a broken file does not flood the conversation
+const MAX_DIAGNOSTICS = 20;
+
+// Errors that only mean a file is outside what we load: packages, their types,
+// runtime globals (node, test frameworks) and the JSX runtime
+const IGNORED_CODES = new Set([
+  2307, // Cannot find module
+  2792, // Cannot find module (moduleResolution hint)
+  7016, // Could not find a declaration file for module
+  2688, // Cannot find type definition file
+  2503, // Cannot find namespace (React, JSX)
+  2580, 2591, // Cannot find name 'process'/'require' (node types)
+  2582, 2593, // Cannot find name 'describe'/'it' (test types)
+  7026, // JSX element implicitly has type 'any'
+  2875, // JSX import source not found
+]);
+
+// Implicit 'any' errors; in a file where a module or global did not resolve, they are
+// what that leaves behind (parameters of callbacks on an untyped value), not real problems
+const IMPLICIT_ANY_CODES = new Set([7005, 7006, 7019, 7031, 7034]);
+
+// Used when the repository has no tsconfig.json
+const DEFAULT_OPTIONS: ts.CompilerOptions = {
+  target: ts.ScriptTarget.ES2020,
+  module: ts.ModuleKind.ESNext,
+  moduleResolution: ts.ModuleResolutionKind.Bundler,
+  jsx: ts.JsxEmit.Preserve,
+  esModuleInterop: true,
+  allowJs: true,
+};
+
+export interface Diagnostic {
+  path: string;
+  line?: number;
+  column?: number;
+  message: string;
+  // TypeScript error code, when the compiler reported it
+  code?: number;
+}
+
+export interface ValidationInput {
+  // Files edited this turn with their new content (null if deleted)
+  changed: Map<string, string | null>;
+  // Content of the changed files at the base commit (null if new); problems
+  // already there are not reported
+  original?: Map<string, string | null>;
+  // Which of them to report on; all changed files when omitted
+  targets?: string[];
+  // Files already loaded as context, checked against but not reported on
+  context: Map<string, string>;
+  // Every path in the repository, with the edits applied
+  paths: Set<string>;
+  readFile: ReadFile;
+}
+
+// Standard library declarations are parsed once per process
+const libFiles = new Map<string, ts.SourceFile>();
+
+function isJsonConfig(file: string): boolean {
+  return file.endsWith('.jsonc') || /(^|\/)(tsconfig|jsconfig)[^/]*\.json$/.test(file);
+}
+
+// 1-based line and column of an offset
+function position(text: string, offset: number): { line: number; column: number } {
+  const before = text.slice(0, offset).split('\n');
+  return { line: before.length, column: before[before.length - 1].length + 1 };
+}
+
+function validateJson(file: string, content: string): Diagnostic[] {
+  if (isJsonConfig(file)) {
+    const { error } = ts.parseConfigFileTextToJson(file, content);
+    return error ? [toDiagnostic(file, error)] : [];
+  }
+  try {
+    JSON.parse(content);
+    return [];
+  } catch (error: any) {
+    // Node reports either "line L column C" or "position N"
+    const lineColumn = error.message.match(/line (\d+) column (\d+)/);
+    const offset = error.message.match(/position (\d+)/);
+    const at = lineColumn
+      ? { line: Number(lineColumn[1]), column: Number(lineColumn[2]) }
+      : offset ? position(content, Number(offset[1])) : {};
+    return [{ path: file, ...at, message: error.message }];
+  }
+}
+
+function toDiagnostic(file: string, diagnostic: ts.Diagnostic): Diagnostic {
+  const message = ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n');
+  if (diagnostic.file && diagnostic.start !== undefined) {
+    const { line, character } = diagnostic.file.getLineAndCharacterOfPosition(diagnostic.start);
+    return { path: file, line: line + 1, column: character + 1, message, code: diagnostic.code };
+  }
+  return { path: file, message, code: diagnostic.code };
+}
+
+// Compiler options from the repository's root tsconfig.json, made safe for an
+// in-memory check (no emit, no type packages)
+async function loadOptions(paths: Set<string>, readFile: ReadFile): Promise<ts.CompilerOptions> {
+  const configPath = ['tsconfig.json', 'jsconfig.json'].find(p => paths.has(p));
+  const text = configPath ? await readFile(configPath) : null;
+  const { config } = text ? ts.parseConfigFileTextToJson(configPath!, text) : { config: null };
+  const { options } = config?.compilerOptions
+    ? ts.convertCompilerOptionsFromJson(config.compilerOptions, ROOT)
+    : { options: DEFAULT_OPTIONS };
+
+  return {
+    ...options,
+    noEmit: true,
+    skipLibCheck: true,
+    types: [],
+    typeRoots: [],
+    allowJs: true,
+    checkJs: false,
+    incremental: false,
+    composite: false,
+    declaration: false,
+    plugins: undefined,
+  };
+}
+
+// Type-check sources in an in-memory program over the given files. Returns each
+// source's diagnostics, without those that only mean something was not loaded.
+function checkSources(
+  sources: string[],
+  files: Map<string, string>,
+  options: ts.CompilerOptions
+): Map<string, Diagnostic[]> {
+  const libDir = posix.dirname(ts.getDefaultLibFilePath(options));
+  const virtual = new Map([...files].map(([file, content]) => [`${ROOT}/${file}`, content]));
+  const isLib = (fileName: string) => fileName.startsWith(`${libDir}/`);
+
+  const host: ts.CompilerHost = {
+    getSourceFile: (fileName, languageVersion) => {
+      if (isLib(fileName)) {
+        const key = `${fileName}:${JSON.stringify(languageVersion)}`;
+        let lib = libFiles.get(key);
+        if (!lib) {
+          const text = ts.sys.readFile(fileName);
+          if (text === undefined) return undefined;
+          lib = ts.createSourceFile(fileName, text, languageVersion);
+          libFiles.set(key, lib);
+        }
+        return lib;
+      }
+      const text = virtual.get(fileName);
+      return text === undefined ? undefined : ts.createSourceFile(fileName, text, languageVersion, true);
+    },
+    getDefaultLibFileName: opts => ts.getDefaultLibFilePath(opts),
+    getDefaultLibLocation: () => libDir,
+    writeFile: () => {},
+    getCurrentDirectory: () => ROOT,
+    getCanonicalFileName: fileName => fileName,
+    useCaseSensitiveFileNames: () => true,
+    getNewLine: () => '\n',
+    fileExists: fileName => virtual.has(fileName) || (isLib(fileName) && ts.sys.fileExists(fileName)),
+    readFile: fileName => virtual.get(fileName) ?? (isLib(fileName) ? ts.sys.readFile(fileName) : undefined),
+    directoryExists: dir => dir === ROOT || [...virtual.keys()].some(f => f.startsWith(`${dir}/`)) || isLib(`${dir}/`),
+    getDirectories: () => [],
+  };
+
+  const program = ts.createProgram(sources.map(p => `${ROOT}/${p}`), options, host);
+  const found = new Map<string, Diagnostic[]>();
+  for (const file of sources) {
+    const sourceFile = program.getSourceFile(`${ROOT}/${file}`);
+    if (!sourceFile) continue;
+    const syntactic = program.getSyntacticDiagnostics(sourceFile);
+    // Type errors in a file that does not parse are mostly noise
+    const all = syntactic.length > 0 ? syntactic : program.getSemanticDiagnostics(sourceFile);
+    const unresolved = all.some(d => IGNORED_CODES.has(d.code));
+    found.set(file, all
+      .filter(d => !IGNORED_CODES.has(d.code) && !(unresolved && IMPLICIT_ANY_CODES.has(d.code)))
+      .map(d => toDiagnostic(file, d)));
+  }
+  return found;
+}
+
+// Diagnostics not already present in the base version; matched on code and
+// message, since line numbers move with the edit
+function newDiagnostics(current: Diagnostic[], base: Diagnostic[]): Diagnostic[] {
+  const key = (d: Diagnostic) => `${d.code}:${d.message}`;
+  const remaining = new Map<string, number>();
+  for (const d of base) remaining.set(key(d), (remaining.get(key(d)) || 0) + 1);
+  return current.filter(d => {
+    const count = remaining.get(key(d)) || 0;
+    if (count === 0) return true;
+    remaining.set(key(d), count - 1);
+    return false;
+  });
+}
+
+// Parse the changed TypeScript, JavaScript and JSON files and type-check the
+// TypeScript ones against the loaded context and the files they import. Only
+// problems the edits introduced are reported.
+export async function validateFiles(input: ValidationInput): Promise<Diagnostic[]> {
+  const { changed, context, paths, readFile } = input;
+  const original = input.original ?? new Map<string, string | null>();
+  const targets = (input.targets ?? [...changed.keys()]).filter(p => changed.get(p) != null);
+  const diagnostics: Diagnostic[] = [];
+
+  for (const file of targets.filter(p => p.endsWith('.json') || p.endsWith('.jsonc'))) {
+    const base = original.get(file);
+    const found = validateJson(file, changed.get(file)!);
+    // A file that did not parse before is not blamed on this edit
+    if (found.length > 0 && (base == null || validateJson(file, base).length === 0)) {
+      diagnostics.push(...found);
+    }
+  }
+
+  const sources = targets.filter(p => TS_EXTENSIONS.includes(posix.extname(p)));
+  if (sources.length === 0) return diagnostics.slice(0, MAX_DIAGNOSTICS);
+
+  // Everything the compiler may read: context, edits, and what the edited files import
+  const files = new Map<string, string>(context);
+  for (const [file, content] of changed) {
+    if (content === null) files.delete(file);
+    else files.set(file, content);
+  }
+  const resolver = new TypeScriptResolver(paths, readFile);
+  const fetchImports = async (into: Map<string, string>, file: string) => {
+    const imports = await resolver.dependencies(into.get(file)!, file).catch(() => [] as string[]);
+    await Promise.all(imports.filter(p => !into.has(p)).map(async p => {
+      const imported = await readFile(p);
+      if (imported !== null) into.set(p, imported);
+    }));
+  };
+  await Promise.all(sources.map(file => fetchImports(files, file)));
+
+  const options = await loadOptions(paths, readFile);
+  const current = checkSources(sources, files, options);
+
+  // The same check on the base versions of the edited files that existed
+  const baseSources = sources.filter(p => original.get(p) != null);
+  let base = new Map<string, Diagnostic[]>();
+  if (baseSources.length > 0) {
+    const baseFiles = new Map(files);
+    for (const [file, content] of original) {
+      if (content === null) baseFiles.delete(file);
+      else baseFiles.set(file, content);
+    }
+    await Promise.all(baseSources.map(file => fetchImports(baseFiles, file)));
+    base = checkSources(baseSources, baseFiles, options);
+  }
+
+  for (const file of sources) {
+    diagnostics.push(...newDiagnostics(current.get(file) || [], base.get(file) || []));
+  }
+  return diagnostics.slice(0, MAX_DIAGNOSTICS);
+}
+
+// Compiler-style lines: path:line:column - error TS1234: message
+export function formatDiagnostics(diagnostics: Diagnostic[]): string {
+  return diagnostics
+    .map(d => {
+      const location = d.line ? `${d.path}:${d.line}:${d.column}` : d.path;
+      return `${location} - error${d.code ? ` TS${d.code}` : ''}: ${d.message}`;
+    })
+    .join('\n');
+}
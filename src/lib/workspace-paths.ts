@@ -0,0 +1,42 @@
+import { Session, WorkspaceRepo } from '@/types';
+
+// Aliases become path prefixes: "api:src/routes.ts"
+export const REPO_ALIAS = /^[\w.-]+$/;
+
+// Every repository of a session, the main one first. The main repo's alias is its name.
+export function getWorkspaceRepos(session: Session): WorkspaceRepo[] {
+  if (!session.repo) return [];
+
+  const main: WorkspaceRepo = {
+    alias: session.repo.name,
+    owner: session.repo.owner,
+    name: session.repo.name,
+    defaultBranch: session.repo.defaultBranch || 'main',
+    currentBranch: session.currentBranch,
+  };
+  const aliases = new Set([main.alias]);
+  const others = (session.repos || []).filter(r => {
+    if (!REPO_ALIAS.test(r.alias) || aliases.has(r.alias)) return false;
+    aliases.add(r.alias);
+    return true;
+  });
+  return [main, ...others];
+}
+
+// "api:src/routes.ts" -> the api repo and "src/routes.ts". Paths without a known
+// alias belong to the main repo, and single-repo sessions never use prefixes.
+export function splitRepoPath(path: string, repos: WorkspaceRepo[]): { repo: WorkspaceRepo; path: string } {
+  const separator = path.indexOf(':');
+  if (repos.length > 1 && separator > 0) {
+    const repo = repos.find(r => r.alias === path.slice(0, separator));
+    if (repo) {
+      return { repo, path: path.slice(separator + 1).replace(/^\/+/, '') };
+    }
+  }
+  return { repo: repos[0], path };
+}
+
+// A repo path as Claude and the UI see it: prefixed with the alias in multi-repo workspaces
+export function qualifyPath(alias: string, path: string, repos: WorkspaceRepo[]): string {
+  return repos.length > 1 ? `${alias}:${path}` : path;
+}
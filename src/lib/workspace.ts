@@ -0,0 +1,317 @@
+import { formatFileTree } from '@/lib/github';
+import { RepoClient } from '@/lib/repo-client';
+import { createRepoClient } from '@/lib/repo-backend';
+import { LocalGitClient } from '@/lib/local-git';
+import { CommandResult } from '@/lib/run-command';
+import { CodeIndex, SearchOptions, SearchResult } from '@/lib/code-index';
+import { ChangeSet, buildCommitMessage } from '@/lib/changeset';
+import { updateReferences } from '@/lib/references';
+import { validateFiles, Diagnostic } from '@/lib/validation';
+import { getWorkspaceRepos, splitRepoPath, qualifyPath } from '@/lib/workspace-paths';
+import { DirectoryEntry, FileChange, LoadedFile, PendingChangeSet, RepoCommit, Session, WorkspaceRepo } from '@/types';
+
+export interface WorkspaceMember {
+  repo: WorkspaceRepo;
+  github: RepoClient;
+  index: CodeIndex;
+  // Working branch: read at its head when the turn starts, with this turn's edits on top
+  writeBranch: string;
+}
+
+// The repositories one chat turn works on. A single repo uses plain paths; with
+// several, every path Claude and the UI see is prefixed with its repo's alias.
+// Every read (tree, context, search, read_file) sees the same state of a repo:
+// the working branch head its change set was opened on, plus the staged edits.
+export class Workspace {
+  readonly members: WorkspaceMember[];
+  private repos: WorkspaceRepo[];
+  // Change sets are opened on a repo's first read or edit
+  private changeSets = new Map<WorkspaceMember, Promise<ChangeSet>>();
+  // Files loaded as context, by repo path; edits are validated against them
+  private loaded = new Map<WorkspaceMember, Map<string, string>>();
+
+  constructor(session: Session) {
+    this.repos = getWorkspaceRepos(session);
+    this.members = this.repos.map(repo => {
+      const github = createRepoClient(session.githubToken!, repo.owner, repo.name);
+      return {
+        repo,
+        github,
+        // Searched instead of GitHub code search, so files on the working branch are found too
+        index: new CodeIndex(github),
+        writeBranch: repo.currentBranch || repo.defaultBranch,
+      };
+    });
+  }
+
+  get main(): WorkspaceMember {
+    return this.members[0];
+  }
+
+  isMulti(): boolean {
+    return this.members.length > 1;
+  }
+
+  // Workspace path -> repo and repo-relative path
+  resolve(path: string): { member: WorkspaceMember; path: string } {
+    const { repo, path: repoPath } = splitRepoPath(path, this.repos);
+    return { member: this.members[this.repos.indexOf(repo)], path: repoPath };
+  }
+
+  qualify(member: WorkspaceMember, path: string): string {
+    return qualifyPath(member.repo.alias, path, this.repos);
+  }
+
+  // Commit a repo is read at: its working branch head when the turn started
+  private async baseSha(member: WorkspaceMember): Promise<string> {
+    return (await this.changesFor(member)).getBaseSha();
+  }
+
+  // File tree of every repo, each under its alias when there are several.
+  // Built before any edits, so the base commit's tree is the current one.
+  async formatTree(): Promise<string> {
+    const trees = await Promise.all(this.members.map(async m => m.github.getFileTree(await this.baseSha(m))));
+    if (!this.isMulti()) {
+      return formatFileTree(trees[0]);
+    }
+    return this.members
+      .map((m, i) => `📦 ${m.repo.alias}: (${m.repo.owner}/${m.repo.name})\n${formatFileTree(trees[i], '  ')}`)
+      .join('');
+  }
+
+  // Paths of every file in a repo, including files created this turn
+  async listPaths(member: WorkspaceMember): Promise<string[]> {
+    const changes = await this.changesFor(member);
+    const staged = changes.getStagedContents();
+    const paths = new Set(await member.github.listFilePaths(changes.getBaseSha()));
+    for (const [path, content] of staged) {
+      if (content === null) paths.delete(path);
+      else paths.add(path);
+    }
+    return [...paths];
+  }
+
+  // Read a file with this turn's edits applied
+  async readFile(path: string): Promise<string> {
+    const { member, path: repoPath } = this.resolve(path);
+    return (await this.changesFor(member)).read(repoPath);
+  }
+
+  // Entries directly inside a directory, including files created this turn
+  async listDirectory(path: string): Promise<DirectoryEntry[]> {
+    const { member, path: repoPath } = this.resolve(path);
+    const changes = await this.changesFor(member);
+    const dir = repoPath.replace(/^\/+|\/+$/g, '');
+    const prefix = dir ? `${dir}/` : '';
+
+    const entries = new Map(
+      (await member.github.listDirectory(dir, changes.getBaseSha()).catch(() => [])).map(e => [e.path, e])
+    );
+    for (const [file, content] of changes.getStagedContents()) {
+      if (!file.startsWith(prefix)) continue;
+      const slash = file.indexOf('/', prefix.length);
+      if (slash !== -1) {
+        const subdir = file.slice(0, slash);
+        if (content !== null && !entries.has(subdir)) entries.set(subdir, { path: subdir, type: 'dir' });
+      } else if (content === null) {
+        entries.delete(file);
+      } else {
+        entries.set(file, { path: file, type: 'file', size: Buffer.byteLength(content) });
+      }
+    }
+
+    if (dir && entries.size === 0) {
+      throw new Error(`Directory not found: ${path}`);
+    }
+    return [...entries.values()]
+      .sort((a, b) => a.type === b.type ? a.path.localeCompare(b.path) : a.type === 'dir' ? -1 : 1)
+      .map(e => ({ ...e, path: this.qualify(member, e.path) }));
+  }
+
+  // Search every repo on its working branch with staged edits applied, best matches first
+  async search(query: string, options: SearchOptions = {}): Promise<SearchResult[]> {
+    const results = await Promise.all(this.members.map(async m => {
+      const overlay = (await this.changesFor(m)).getStagedContents();
+      const found = await m.index.search(query, m.writeBranch, { ...options, overlay });
+      return found.map(r => ({ ...r, path: this.qualify(m, r.path) }));
+    }));
+    return results
+      .flat()
+      .sort((a, b) => b.score - a.score)
+      .slice(0, options.limit ?? 20);
+  }
+
+  // Load files and their imports, each repo's at its base commit
+  async loadFiles(paths: string[], maxDepth: number): Promise<LoadedFile[]> {
+    const resolved = paths.map(p => this.resolve(p));
+    const loaded = await Promise.all(this.members.map(async m => {
+      const entryPaths = resolved.filter(r => r.member === m).map(r => r.path);
+      if (entryPaths.length === 0) return [];
+      const files = await m.github.getFilesWithImports(entryPaths, await this.baseSha(m), maxDepth);
+      this.loaded.set(m, new Map(files.map(f => [f.path, f.content])));
+      return files.map(f => ({ ...f, path: this.qualify(m, f.path) }));
+    }));
+    return loaded.flat();
+  }
+
+  // Edits from this turn for a repo, staged in memory on top of its working branch.
+  // Opened once per turn, which pins the commit every later read sees.
+  changesFor(member: WorkspaceMember): Promise<ChangeSet> {
+    let changes = this.changeSets.get(member);
+    if (!changes) {
+      changes = ChangeSet.open(member.github, member.writeBranch);
+      this.changeSets.set(member, changes);
+      changes.catch(() => this.changeSets.delete(member));
+    }
+    return changes;
+  }
+
+  // Move a file within its repo and rewrite the imports that referred to it.
+  // Returns the workspace paths it changed, the files whose imports it rewrote
+  // and the imports it could not rewrite.
+  async moveFile(from: string, to: string): Promise<{ changed: string[]; updated: string[]; unresolved: string[] }> {
+    const source = this.resolve(from);
+    const target = this.resolve(to);
+    if (source.member !== target.member) {
+      throw new Error('Files can only be moved within one repository');
+    }
+
+    const member = source.member;
+    const changes = await this.changesFor(member);
+    const files = new Set(await this.listPaths(member));
+    if (!files.has(source.path)) {
+      throw new Error(`File not found: ${from}`);
+    }
+    if (files.has(target.path)) {
+      throw new Error(`File already exists: ${to}`);
+    }
+
+    const references = await updateReferences(
+      source.path,
+      target.path,
+      files,
+      path => changes.read(path).catch(() => null)
+    );
+    const moved = await changes.moveFile(source.path, target.path);
+    if (!moved.success) {
+      throw new Error(moved.error);
+    }
+    for (const file of references.files) {
+      await changes.createFile(file.path, file.content);
+    }
+
+    const updated = references.files.map(f => f.path).filter(p => p !== target.path);
+    return {
+      changed: [source.path, target.path, ...updated].map(p => this.qualify(member, p)),
+      updated: updated.map(p => this.qualify(member, p)),
+      unresolved: references.unresolved.map(u => this.qualify(member, u)),
+    };
+  }
+
+  // Run an allow-listed command in a repo's checkout at its base commit with
+  // this turn's edits written on top (main repo unless an alias is given)
+  async runCommand(command: string, alias?: string, timeoutSeconds?: number): Promise<CommandResult> {
+    const member = alias ? this.members.find(m => m.repo.alias === alias) : this.main;
+    if (!member) {
+      throw new Error(`Unknown repository: ${alias}`);
+    }
+    if (!(member.github instanceof LocalGitClient)) {
+      throw new Error('run_command needs the local git backend (REPO_BACKEND=local)');
+    }
+    const changes = await this.changesFor(member);
+    return member.github.runInWorkingTree(command, changes.getBaseSha(), changes.getStagedContents(), timeoutSeconds);
+  }
+
+  // Check the edited files (or the given ones) for syntax and type errors
+  async validate(paths?: string[]): Promise<Diagnostic[]> {
+    const targets = paths?.map(p => this.resolve(p));
+    const found = await Promise.all((await this.opened()).map(async ({ member, changes }) => {
+      if (!changes.hasChanges()) return [];
+      const diagnostics = await validateFiles({
+        changed: changes.getStagedContents(),
+        original: changes.getOriginalContents(),
+        targets: targets?.filter(t => t.member === member).map(t => t.path),
+        context: this.loaded.get(member) || new Map(),
+        paths: new Set(await this.listPaths(member)),
+        readFile: path => changes.read(path).catch(() => null),
+      });
+      return diagnostics.map(d => ({ ...d, path: this.qualify(member, d.path) }));
+    }));
+    return found.flat();
+  }
+
+  // Change sets opened so far, with their repos
+  private async opened(): Promise<Array<{ member: WorkspaceMember; changes: ChangeSet }>> {
+    const opened = await Promise.all(
+      [...this.changeSets].map(async ([member, changes]) => ({ member, changes: await changes }))
+    );
+    // Main repo first
+    return opened.sort((a, b) => this.members.indexOf(a.member) - this.members.indexOf(b.member));
+  }
+
+  async hasChanges(): Promise<boolean> {
+    return (await this.opened()).some(o => o.changes.hasChanges());
+  }
+
+  // Current change to a single file, or null if it is unchanged
+  async getFileChange(path: string): Promise<FileChange | null> {
+    const { member, path: repoPath } = this.resolve(path);
+    const changes = this.changeSets.get(member);
+    if (!changes) return null;
+    const change = (await changes).getFileChange(repoPath);
+    return change && { ...change, path: this.qualify(member, change.path) };
+  }
+
+  async getFileChanges(): Promise<FileChange[]> {
+    return (await this.opened()).flatMap(({ member, changes }) =>
+      changes.getFileChanges().map(c => ({ ...c, path: this.qualify(member, c.path) }))
+    );
+  }
+
+  // Hold every repo's staged changes for review instead of committing them
+  async toPending(message: string): Promise<PendingChangeSet> {
+    const changed = (await this.opened()).filter(o => o.changes.hasChanges());
+    const pending = changed.map(({ member, changes }) => ({ member, set: changes.toPending(message) }));
+    if (!this.isMulti()) {
+      return pending[0].set;
+    }
+
+    return {
+      branch: pending[0].set.branch,
+      baseSha: pending[0].set.baseSha,
+      message,
+      status: 'pending',
+      files: pending.flatMap(({ member, set }) => set.files.map(f => ({ ...f, path: this.qualify(member, f.path) }))),
+      repos: Object.fromEntries(pending.map(({ member, set }) => [member.repo.alias, { branch: set.branch, baseSha: set.baseSha }])),
+    };
+  }
+
+  // Commit each repo's staged changes to its working branch. A repo that fails
+  // does not stop the others; its error is returned instead.
+  async commit(request: string): Promise<{ commits: RepoCommit[]; errors: string[] }> {
+    const commits: RepoCommit[] = [];
+    const errors: string[] = [];
+    for (const { member, changes } of await this.opened()) {
+      if (!changes.hasChanges()) continue;
+      try {
+        const parentSha = changes.getBaseSha();
+        const sha = await changes.commit(buildCommitMessage(request, changes.getFileChanges()));
+        commits.push({ repo: member.repo.alias, branch: member.writeBranch, sha, parentSha });
+      } catch (error: any) {
+        errors.push(this.isMulti() ? `${member.repo.alias}: ${error.message}` : error.message);
+      }
+    }
+    return { commits, errors };
+  }
+}
+
+// Tells Claude which repositories the workspace has and how their paths are written
+export function formatWorkspaceForPrompt(workspace: Workspace): string {
+  if (!workspace.isMulti()) return '';
+  const repos = workspace.members
+    .map(m => `- ${m.repo.alias}: ${m.repo.owner}/${m.repo.name} (working branch ${m.writeBranch})`)
+    .join('\n');
+  return `\n\n## Workspace\nThis workspace spans several repositories:\n${repos}\n\n` +
+    `Every path is written alias:path, e.g. ${workspace.main.repo.alias}:src/index.ts. ` +
+    `Use that form in all tool calls; search_files searches every repository.`;
+}
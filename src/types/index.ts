@@ -12,12 +12,177 @@ export interface Message {
     cacheWrite?: number;
   };
   filesChanged?: FileChange[];
+  commitSha?: string;
+  // Commits the turn made, one per repo; they are the turn's undo checkpoint
+  commits?: RepoCommit[];
+  pendingChanges?: PendingChangeSet;
+  model?: string;
+  modelReason?: string;
+  steps?: AgentStep[];
+  stopReason?: AgentStopReason;
+  // What repository context was sent with the request
+  context?: ContextManifest;
+  // Set on messages sent by deploy auto-recovery
+  recoveryAttempt?: {
+    attempt: number;
+    maxAttempts: number;
+  };
 }
 
 export interface FileChange {
   path: string;
   action: 'create' | 'edit' | 'delete';
+  // Unified diff against the file before the turn
   diff?: string;
+  additions?: number;
+  deletions?: number;
+}
+
+// Agent loop types
+export type ContentBlock =
+  | { type: 'text'; text: string }
+  | { type: 'tool_use'; id: string; name: string; input: any }
+  | { type: 'tool_result'; tool_use_id: string; content: string; is_error?: boolean };
+
+export interface ChatMessage {
+  role: 'user' | 'assistant';
+  content: string | ContentBlock[];
+}
+
+export interface ToolCall {
+  id: string;
+  name: string;
+  input: any;
+}
+
+export interface ToolCallTrace extends ToolCall {
+  success: boolean;
+  output?: string;
+  error?: string;
+}
+
+export interface AgentStep {
+  index: number;
+  text: string;
+  toolCalls: ToolCallTrace[];
+  stopReason: string;
+  cost: number;
+}
+
+export type AgentStopReason = 'end_turn' | 'max_steps' | 'cost_limit' | 'budget' | 'max_tokens' | 'refusal';
+
+// Running summary of the older part of a long conversation
+export interface ConversationSummary {
+  text: string;
+  // Number of leading history messages the summary replaces
+  coveredMessages: number;
+  // Hash of the covered messages, so a stale summary is never reused
+  key: string;
+  tokensSaved: number;
+}
+
+// Streaming (SSE) events sent by /api/chat when stream is requested
+export type StreamEvent =
+  | { type: 'step_start'; index: number }
+  | { type: 'text'; text: string }
+  | { type: 'tool_start'; call: ToolCall }
+  | { type: 'tool_end'; call: ToolCallTrace }
+  | { type: 'file_change'; change: FileChange }
+  | { type: 'model'; model: string; reason: string }
+  | { type: 'done'; result: ChatResponse }
+  | { type: 'error'; error: string };
+
+// Final payload of a chat turn (JSON body, or the `done` stream event)
+export interface ChatResponse {
+  content: string;
+  filesChanged: FileChange[];
+  // Commit on the main repo's branch
+  commitSha?: string;
+  commits?: RepoCommit[];
+  pendingChanges?: PendingChangeSet;
+  steps: AgentStep[];
+  stopReason: AgentStopReason;
+  model: string;
+  modelReason: string;
+  summary?: ConversationSummary;
+  command?: string;
+  context?: ContextManifest;
+  cost: number;
+  tokensUsed: {
+    input: number;
+    output: number;
+    cacheRead: number;
+    cacheWrite: number;
+  };
+  costTracker: CostTracker;
+}
+
+// Context packing types
+export interface ContextManifestEntry {
+  path: string;
+  mode: 'full' | 'excerpt' | 'outline' | 'omitted';
+  // Tokens the file takes in the context (0 when omitted)
+  tokens: number;
+  // Tokens of the complete file
+  fullTokens: number;
+  // Why the file was a candidate: mentioned, search hit, import, recently edited
+  reasons: string[];
+}
+
+export interface ContextManifest {
+  budget: number;
+  used: number;
+  treeTokens: number;
+  treeTruncated: boolean;
+  files: ContextManifestEntry[];
+}
+
+// Diff types
+export interface DiffLine {
+  type: 'context' | 'add' | 'remove';
+  text: string;
+  oldLine?: number;
+  newLine?: number;
+  // Last line of a file that does not end with a newline
+  noNewline?: boolean;
+}
+
+export interface DiffHunk {
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  lines: DiffLine[];
+}
+
+// Review mode: edits held back until the user approves them
+export interface PendingFileChange {
+  path: string;
+  action: 'create' | 'edit' | 'delete';
+  original: string | null;
+  proposed: string | null;
+  hunks: DiffHunk[];
+  // Base path of a moved file (in the same repo, never alias-qualified); its mode carries over
+  movedFrom?: string;
+}
+
+export interface PendingChangeSet {
+  branch: string;
+  baseSha: string;
+  message: string;
+  files: PendingFileChange[];
+  status: 'pending' | 'committed' | 'discarded';
+  // Multi-repo workspaces: branch and base commit per repo alias (file paths are then "alias:path")
+  repos?: Record<string, { branch: string; baseSha: string }>;
+}
+
+export interface RepoCommit {
+  // Workspace alias of the repo
+  repo: string;
+  branch: string;
+  sha: string;
+  // Branch head before the commit
+  parentSha: string;
 }
 
 // GitHub types
@@ -27,12 +192,26 @@ export interface RepoFile {
   sha: string;
 }
 
+// A file loaded by following imports
+export interface LoadedFile extends RepoFile {
+  // Import hops from the nearest entry file (0 = entry file)
+  depth: number;
+}
+
 export interface RepoTree {
   path: string;
   type: 'file' | 'dir';
   children?: RepoTree[];
 }
 
+// One entry of a directory listing
+export interface DirectoryEntry {
+  path: string;
+  type: 'file' | 'dir';
+  // Bytes, for files
+  size?: number;
+}
+
 export interface Branch {
   name: string;
   sha: string;
@@ -42,7 +221,7 @@ export interface Branch {
 // Settings types
 export interface Settings {
   deployMode: 'safe' | 'direct';
-  model: 'sonnet' | 'opus' | 'auto';
+  model: 'haiku' | 'sonnet' | 'opus' | 'auto';
   enableMultiModelRouting: boolean;
   enableConversationCompression: boolean;
   tokenBudget: {
@@ -51,6 +230,44 @@ export interface Settings {
     perDay: number;
   };
   preBuiltCommands: boolean;
+  streamResponses: boolean;
+  reviewChanges: boolean;
+  agentLimits: {
+    maxSteps: number;
+    maxCost: number;
+  };
+  // Tokens of repository context (file tree and files) sent with each message
+  contextBudget: number;
+  // Syntax and type checks of edited files: reported to Claude, and with 'block'
+  // a turn that still has errors is held for review instead of committed
+  validation: 'off' | 'warn' | 'block';
+  // Fix failed preview deployments automatically
+  autoRecovery: {
+    enabled: boolean;
+    maxAttempts: number;
+    // Dollars all attempts on a branch may spend together
+    maxCost: number;
+  };
+}
+
+// Slash commands (/fix, /review, ...)
+export interface SlashCommand {
+  name: string;
+  description: string;
+  args?: Array<{
+    name: string;
+    description: string;
+    type?: 'path' | 'text';
+    required?: boolean;
+  }>;
+  // Template with {{argName}} placeholders ({{input}} is every argument)
+  prompt: string;
+  // Tools Claude may use; all tools when omitted
+  allowedTools?: string[];
+  model?: 'haiku' | 'sonnet' | 'opus';
+  // How code context is loaded: keyword search, the paths given as arguments, or file tree only
+  context?: 'search' | 'args' | 'none';
+  source: 'builtin' | 'repo';
 }
 
 // Cost tracking
@@ -66,16 +283,67 @@ export interface CostTracker {
   };
 }
 
-// Railway types
+// One API call in the persistent cost ledger
+export interface LedgerEntry {
+  id: string;
+  timestamp: string;
+  sessionId?: string;
+  repo: string;
+  branch: string;
+  model: string;
+  purpose: 'chat' | 'summary';
+  tokens: {
+    input: number;
+    output: number;
+    cacheRead: number;
+    cacheWrite: number;
+  };
+  cost: number;
+}
+
+// Deploy types
 export interface DeployStatus {
   status: 'building' | 'deploying' | 'success' | 'failed' | 'idle';
+  // Provider that reported the status ('railway', 'mock')
+  provider?: string;
+  deploymentId?: string;
+  branch?: string;
+  commitSha?: string;
   url?: string;
   error?: string;
   logs?: string[];
+  updatedAt?: string;
 }
 
+// Saved conversation, tied to a repository and its working branch
+export interface Conversation {
+  id: string;
+  // "owner/name"
+  repo: string;
+  // Working branch, empty when changes went straight to the default branch
+  branch: string;
+  title: string;
+  messages: Message[];
+  summary?: ConversationSummary;
+  // Working branches of the workspace's other repos, by alias
+  branches?: Record<string, string>;
+  // Latest commit on the branch, so its preview deployment is tracked again on resume
+  deployTarget?: { branch: string; commitSha: string };
+  // Sum of the messages' costs
+  cost: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// A conversation as listed in the history sidebar
+export type ConversationInfo = Omit<Conversation, 'messages' | 'summary' | 'deployTarget' | 'branches'> & {
+  messageCount: number;
+};
+
 // Session state
 export interface Session {
+  // Identifies this browser session in the cost ledger
+  id?: string;
   githubToken?: string;
   anthropicKey?: string;
   repo?: {
@@ -84,6 +352,19 @@ export interface Session {
     defaultBranch: string;
   };
   currentBranch?: string;
+  // Further repositories worked on together with the main one
+  repos?: WorkspaceRepo[];
   railwayProjectId?: string;
   railwayToken?: string;
 }
+
+// A repository in a multi-repo workspace
+export interface WorkspaceRepo {
+  // Short name that namespaces tool paths, e.g. "api" in "api:src/routes.ts"
+  alias: string;
+  owner: string;
+  name: string;
+  defaultBranch: string;
+  // Working branch (sent with chat requests, like Session.currentBranch)
+  currentBranch?: string;
+}